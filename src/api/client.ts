@@ -0,0 +1,92 @@
+import FormData from 'form-data';
+import Client, {
+  ClientOptions,
+  REFRESH_TOKEN_MUTATION,
+  Response,
+  UploadableMap,
+} from 'slicknode-client';
+import {createFetch, Fetch} from './http';
+
+export interface IApiClientOptions extends ClientOptions {
+  /**
+   * The fetch function that is used for the requests to the API
+   */
+  fetch?: Fetch;
+
+  /**
+   * A refresh token that was provided by the user, e.g. via environment variable. The lifetime
+   * of the token is unknown, so it does not expire locally, invalid tokens are rejected by the API
+   */
+  refreshToken?: string;
+}
+
+/**
+ * Client for the Slicknode API that sends all requests with the fetch function of the HTTP layer,
+ * so that the proxy, CA bundle and timeout settings are applied. The base client always uses the global fetch
+ */
+export default class ApiClient extends Client {
+  private httpFetch: Fetch;
+  private refreshToken: string | null;
+
+  constructor(options: IApiClientOptions) {
+    const {fetch, refreshToken, ...clientOptions} = options;
+    super(clientOptions);
+    this.httpFetch = fetch || createFetch({});
+    this.refreshToken = refreshToken || null;
+  }
+
+  /**
+   * Returns the refresh token from the storage, the refresh token of the options otherwise
+   */
+  public getRefreshToken(): string | null {
+    return super.getRefreshToken() || this.refreshToken;
+  }
+
+  public async fetch<TData = {[field: string]: any}>(
+    query: string,
+    variables: {[key: string]: any} = {},
+    operationName: string | null = null,
+    files: UploadableMap = {},
+  ): Promise<Response<TData>> {
+    const authHeaders = query !== REFRESH_TOKEN_MUTATION ? await this.getAuthHeaders() : {};
+    const headers: {[name: string]: string} = {
+      ...(authHeaders as {[name: string]: string}),
+      ...(this.options.headers as {[name: string]: string} || {}),
+    };
+
+    let body: string | FormData;
+    if (files && Object.keys(files).length > 0) {
+      // Send files as multipart request
+      const data = new FormData();
+      Object.keys(files).forEach((name) => {
+        const file = files[name];
+        if (Buffer.isBuffer(file) || typeof file === 'string') {
+          data.append(name, file, 'data.bin');
+        } else {
+          data.append(name, file as any);
+        }
+      });
+      data.append('query', query);
+      data.append('variables', JSON.stringify(variables || {}));
+      if (operationName) {
+        data.append('operationName', operationName);
+      }
+      body = data;
+    } else {
+      body = JSON.stringify({
+        query,
+        variables: variables || {},
+        ...(operationName ? {operationName} : {}),
+      });
+      headers['Content-Type'] = 'application/json';
+      headers.Accept = 'application/json';
+    }
+
+    const result = await this.httpFetch(this.options.endpoint, {
+      method: 'POST',
+      headers,
+      body,
+    });
+    return await result.json();
+  }
+}
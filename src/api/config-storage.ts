@@ -3,14 +3,44 @@
  */
 
 import * as fs from 'fs';
-import {mkdirpSync} from 'fs-extra';
+import {ensureDirSync} from 'fs-extra';
 import _ from 'lodash';
 import * as path from 'path';
+import uuid from 'uuid';
+
+/**
+ * Age in milliseconds after which a lock is considered stale, e.g. after a crash of the process that held it
+ */
+const LOCK_STALE_AGE = 30000;
+
+/**
+ * Time in milliseconds to wait for a lock that is held by another process,
+ * longer than the stale age so that locks of crashed processes are taken over
+ */
+const LOCK_TIMEOUT = 2 * LOCK_STALE_AGE;
+
+const LOCK_RETRY_INTERVAL = 50;
+
+/**
+ * Config files can contain auth tokens, so they are only readable by the user
+ */
+const FILE_MODE = 0o600;
+const DIR_MODE = 0o700;
 
 export default class ConfigStorage {
   public file: string;
   public cache: {[key: string]: any} | null;
 
+  /**
+   * Number of nested operations that hold the lock of the file
+   */
+  private lockDepth: number = 0;
+
+  /**
+   * Unique ID that is written to the lock file while this instance holds the lock
+   */
+  private lockId: string | null = null;
+
   constructor(file: string) {
     this.file = file;
     this.cache = null;
@@ -21,15 +51,19 @@ export default class ConfigStorage {
     return val ? String(val) : null;
   }
 
-  public setItem(keyName: string, keyValue: string): void {
-    this.setValues({
-      ...this.getValues(),
-      [keyName]: keyValue,
+  public setItem(keyName: string, keyValue: any): void {
+    this.withLock(() => {
+      this.setValues({
+        ...this.readValues(),
+        [keyName]: keyValue,
+      });
     });
   }
 
   public removeItem(keyName: string): void {
-    this.setValues(_.omit(this.getValues(), [ keyName ]));
+    this.withLock(() => {
+      this.setValues(_.omit(this.readValues(), [ keyName ]));
+    });
   }
 
   public clear(): void {
@@ -40,30 +74,202 @@ export default class ConfigStorage {
    * @private
    */
   public getValues(): {[key: string]: any} {
-    try {
-      if (!this.cache) {
-        const data = fs.readFileSync(this.file, 'utf8');
+    if (!this.cache) {
+      let data;
+      try {
+        data = fs.readFileSync(this.file, 'utf8');
+      } catch (e) {
+        return {};
+      }
+      try {
         this.cache = JSON.parse(data) || {};
+      } catch (e) {
+        this.recoverCorruptFile();
+        return {};
       }
-      return this.cache || {};
-    } catch (e) {
-      return {};
     }
+    return this.cache || {};
   }
 
   /**
+   * Writes the values to a temporary file that replaces the config file,
+   * so the file is never left in a partially written state
+   *
    * @private
    */
   public setValues(values: {[key: string]: any}): void {
+    this.withLock(() => {
+      const tmpFile = `${this.file}.${uuid.v4()}.tmp`;
+      try {
+        const fd = fs.openSync(tmpFile, 'w', FILE_MODE);
+        try {
+          fs.writeSync(fd, JSON.stringify(values));
+          fs.fsyncSync(fd);
+        } finally {
+          fs.closeSync(fd);
+        }
+        fs.renameSync(tmpFile, this.file);
+        this.cache = null;
+      } catch (e) {
+        try {
+          fs.unlinkSync(tmpFile);
+        } catch (unlinkError) {
+          // Temporary file was not created
+        }
+        throw new Error(
+          'ERROR: Could not write configuration to user home dir. Make sure your user has write permission.',
+        );
+      }
+    });
+  }
+
+  /**
+   * Runs the function while holding an advisory lock on the file, so that
+   * read-modify-write operations of parallel processes don't overwrite each other
+   *
+   * @param fn
+   */
+  private withLock<T>(fn: () => T): T {
+    if (this.lockDepth === 0) {
+      this.acquireLock();
+    }
+    this.lockDepth++;
+    try {
+      return fn();
+    } finally {
+      this.lockDepth--;
+      if (this.lockDepth === 0) {
+        this.releaseLock();
+      }
+    }
+  }
+
+  private acquireLock() {
+    const lockFile = `${this.file}.lock`;
     try {
-      mkdirpSync(path.dirname(this.file));
-      const data = JSON.stringify(values);
-      fs.writeFileSync(this.file, data);
-      this.cache = null;
+      ensureDirSync(path.dirname(this.file), DIR_MODE);
     } catch (e) {
       throw new Error(
         'ERROR: Could not write configuration to user home dir. Make sure your user has write permission.',
       );
     }
+
+    const start = Date.now();
+    const lockId = uuid.v4();
+    while (true) {
+      try {
+        const fd = fs.openSync(lockFile, 'wx', FILE_MODE);
+        try {
+          fs.writeSync(fd, lockId);
+        } finally {
+          fs.closeSync(fd);
+        }
+        this.lockId = lockId;
+        return;
+      } catch (e) {
+        if (e.code !== 'EEXIST') {
+          throw new Error(`ERROR: Could not create lock file ${lockFile}: ${e.message}`);
+        }
+      }
+
+      // Take over locks of processes that crashed while holding the lock
+      if (this.isStaleLock(lockFile)) {
+        this.removeStaleLock(lockFile);
+        continue;
+      }
+
+      if (Date.now() - start > LOCK_TIMEOUT) {
+        throw new Error(
+          `ERROR: The configuration file ${this.file} is locked by another process. ` +
+          `If no other slicknode process is running, delete the file ${lockFile}`,
+        );
+      }
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_INTERVAL);
+    }
+  }
+
+  /**
+   * Removes the lock file if it is still held by this instance, it might have been
+   * taken over by another process in the meantime
+   */
+  private releaseLock() {
+    const lockFile = `${this.file}.lock`;
+    try {
+      if (fs.readFileSync(lockFile, 'utf8') === this.lockId) {
+        fs.unlinkSync(lockFile);
+      }
+    } catch (e) {
+      // Lock was already removed
+    }
+    this.lockId = null;
+  }
+
+  /**
+   * Returns true if the lock file exists and was not updated for longer than the stale age
+   *
+   * @param lockFile
+   */
+  private isStaleLock(lockFile: string): boolean {
+    try {
+      return Date.now() - fs.statSync(lockFile).mtimeMs > LOCK_STALE_AGE;
+    } catch (e) {
+      // Lock was released in the meantime
+      return false;
+    }
+  }
+
+  /**
+   * Moves the stale lock out of the way with an atomic rename, so that only one of the waiting
+   * processes removes it. If another process replaced the stale lock with a new lock in the
+   * meantime, that lock is restored
+   *
+   * @param lockFile
+   */
+  private removeStaleLock(lockFile: string) {
+    const staleFile = `${lockFile}.${uuid.v4()}.stale`;
+    try {
+      fs.renameSync(lockFile, staleFile);
+    } catch (e) {
+      // Lock was released or taken over by another process
+      return;
+    }
+    if (!this.isStaleLock(staleFile)) {
+      try {
+        // Link fails if the lock file exists, so a newer lock is never overwritten
+        fs.linkSync(staleFile, lockFile);
+      } catch (e) {
+        // Another process holds the lock now
+      }
+    }
+    try {
+      fs.unlinkSync(staleFile);
+    } catch (e) {
+      // File was already removed
+    }
+  }
+
+  /**
+   * Returns the current values of the file, ignoring the cache
+   */
+  private readValues(): {[key: string]: any} {
+    this.cache = null;
+    return this.getValues();
+  }
+
+  /**
+   * Moves a file that could not be parsed out of the way, so that it can be recreated
+   * and the content is not lost
+   */
+  private recoverCorruptFile() {
+    const backupFile = `${this.file}.corrupt-${Date.now()}`;
+    try {
+      fs.renameSync(this.file, backupFile);
+      process.stderr.write(
+        `WARNING: The configuration file ${this.file} was corrupt and has been reset. ` +
+        `The original content was saved in ${backupFile}\n`,
+      );
+    } catch (e) {
+      // File was already recovered by another process
+    }
   }
 }
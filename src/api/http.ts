@@ -0,0 +1,116 @@
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import {HttpsProxyAgent} from 'https-proxy-agent';
+import nodeFetch, {RequestInit, Response} from 'node-fetch';
+import tls from 'tls';
+import {parse} from 'url';
+import {ISettings} from '../types';
+
+/**
+ * The fetch function that is used for all network requests of the CLI
+ */
+export type Fetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Proxy agent that also trusts the configured CA certificates for the connection to the target server.
+ * The options of the agent are only used for the connection to the proxy server
+ */
+class CaHttpsProxyAgent extends HttpsProxyAgent {
+  private ca: string[];
+
+  constructor(proxy: string, ca: string[]) {
+    super({...parse(proxy), ca});
+    this.ca = ca;
+  }
+
+  public callback(req: http.ClientRequest, opts: any) {
+    return super.callback(req, {...opts, ca: this.ca});
+  }
+}
+
+/**
+ * Returns the URL of the proxy server for the request URL:
+ * The proxy setting or the HTTPS_PROXY / HTTP_PROXY environment variable,
+ * NULL if no proxy is configured or the host is excluded via NO_PROXY
+ *
+ * @param url
+ * @param settings
+ * @param env
+ */
+export function getProxyUrl(
+  url: string,
+  settings: ISettings,
+  env: {[name: string]: string | undefined} = process.env,
+): string | null {
+  const {protocol, hostname, port} = parse(url);
+  const proxy = settings.proxy || (
+    protocol === 'https:' ?
+      env.HTTPS_PROXY || env.https_proxy :
+      env.HTTP_PROXY || env.http_proxy
+  );
+  if (!proxy || !hostname) {
+    return null;
+  }
+
+  const host = hostname.toLowerCase();
+  const noProxy = (env.NO_PROXY || env.no_proxy || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  const excluded = noProxy.some((entry) => {
+    if (entry === '*') {
+      return true;
+    }
+    const [ entryHost, entryPort ] = entry.split(':');
+    if (entryPort && entryPort !== (port || (protocol === 'https:' ? '443' : '80'))) {
+      return false;
+    }
+    const domain = entryHost.replace(/^\*?\./, '');
+    return host === domain || host.endsWith('.' + domain);
+  });
+
+  return excluded ? null : proxy;
+}
+
+/**
+ * Returns a fetch function that applies the proxy, CA bundle and timeout settings to all requests
+ *
+ * @param settings
+ * @param fetch The underlying fetch implementation
+ */
+export function createFetch(settings: ISettings, fetch: (url: string, init?: any) => Promise<any> = nodeFetch): Fetch {
+  let ca: string[] | undefined;
+  if (settings.caFile) {
+    try {
+      // Add to the default root certificates, the ca option replaces them otherwise
+      ca = [ ...(tls.rootCertificates || []), fs.readFileSync(settings.caFile, 'utf8') ];
+    } catch (e) {
+      throw new Error(`Could not read CA bundle file "${settings.caFile}": ${e.message}`);
+    }
+  }
+
+  // Agents are reused, so connections are kept alive between requests
+  const agents: {[key: string]: http.Agent} = {};
+  function getAgent(url: string): http.Agent | undefined {
+    const proxy = getProxyUrl(url, settings);
+    const isHttps = parse(url).protocol === 'https:';
+    const key = proxy ? `proxy:${proxy}` : (isHttps ? 'https' : 'http');
+    if (!agents[key]) {
+      if (proxy) {
+        agents[key] = ca ? new CaHttpsProxyAgent(proxy, ca) : new HttpsProxyAgent(proxy);
+      } else if (isHttps) {
+        agents[key] = new https.Agent({keepAlive: true, ...(ca ? {ca} : {})});
+      } else {
+        agents[key] = new http.Agent({keepAlive: true});
+      }
+    }
+    return agents[key];
+  }
+
+  return (url: string, init: RequestInit = {}) => fetch(url, {
+    agent: getAgent(url),
+    ...(settings.timeout ? {timeout: settings.timeout} : {}),
+    ...init,
+  });
+}
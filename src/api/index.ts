@@ -2,4 +2,20 @@
  * Created by Ivo Meißner on 07.08.17.
  */
 
+export {default as ApiClient} from './client';
 export {default as ConfigStorage} from './config-storage';
+export {
+  createFetch,
+  Fetch,
+  getProxyUrl,
+} from './http';
+export {
+  getEnvironmentSettings,
+  getSettingEnvName,
+  getSettings,
+  parseProjectSettings,
+  parseSettingValue,
+  PROJECT_SETTING_NAMES,
+  SETTING_NAMES,
+  SETTINGS,
+} from './settings';
@@ -0,0 +1,136 @@
+import Joi from 'joi';
+import _ from 'lodash';
+import {ISettings} from '../types';
+import {ENVIRONMENT_REGEX} from '../validation/constants';
+
+export interface ISettingDefinition {
+  description: string;
+  schema: Joi.Schema;
+}
+
+/**
+ * The settings that can be configured with "slicknode config set"
+ */
+export const SETTINGS: {[name in keyof ISettings]-?: ISettingDefinition} = {
+  endpoint: {
+    description: 'The URL of the Slicknode API endpoint',
+    schema: Joi.string().uri({scheme: [ 'http', 'https' ]}),
+  },
+  proxy: {
+    description: 'The URL of the HTTP proxy that is used for all requests',
+    schema: Joi.string().uri({scheme: [ 'http', 'https' ]}),
+  },
+  timeout: {
+    description: 'The timeout of HTTP requests in milliseconds, 0 for no timeout',
+    schema: Joi.number().integer().min(0),
+  },
+  caFile: {
+    description: 'The path to a PEM file with additional CA certificates to trust, e.g. for a corporate proxy',
+    schema: Joi.string(),
+  },
+  disableUpdateCheck: {
+    description: 'Disables the daily check for new versions of the CLI (true or false)',
+    schema: Joi.boolean(),
+  },
+  color: {
+    description: 'Enables or disables colored output (true or false)',
+    schema: Joi.boolean(),
+  },
+  defaultEnv: {
+    description: 'The environment that is used if no environment is specified and the project has no default',
+    schema: Joi.string().regex(ENVIRONMENT_REGEX),
+  },
+  defaultAccount: {
+    description: 'The identifier of the account where new projects are created',
+    schema: Joi.string(),
+  },
+};
+
+export const SETTING_NAMES = Object.keys(SETTINGS) as Array<keyof ISettings>;
+
+/**
+ * The settings that can be configured for all developers of a project in the slicknode.config.yml file,
+ * settings that depend on the machine like the proxy can only be configured by the user.
+ * The endpoint can not be set in the project, otherwise a cloned repository could send the stored
+ * credentials of the user to an arbitrary host
+ */
+export const PROJECT_SETTING_NAMES: Array<keyof ISettings> = [
+  'timeout',
+  'defaultEnv',
+  'defaultAccount',
+];
+
+/**
+ * Parses and validates the value of a setting, throws an error if the value is invalid
+ *
+ * @param name
+ * @param value
+ */
+export function parseSettingValue(name: keyof ISettings, value: string): any {
+  const result = Joi.validate(value, SETTINGS[name].schema.label(name));
+  if (result.error) {
+    throw new Error(`Invalid value for setting "${name}": ${result.error.details[0].message}`);
+  }
+
+  return result.value;
+}
+
+/**
+ * Returns the settings from the stored config values, invalid values are ignored
+ *
+ * @param values
+ */
+export function getSettings(values: {[key: string]: any}): ISettings {
+  return SETTING_NAMES.reduce((settings: {[key: string]: any}, name) => {
+    if (values[name] !== undefined && values[name] !== null) {
+      const result = Joi.validate(values[name], SETTINGS[name].schema);
+      if (!result.error) {
+        settings[name] = result.value;
+      }
+    }
+    return settings;
+  }, {}) as ISettings;
+}
+
+/**
+ * Validates the values of the project config file, throws an error if the values are invalid
+ *
+ * @param values
+ */
+export function parseProjectSettings(values: {[key: string]: any}): ISettings {
+  const schema = Joi.object().keys(
+    _.mapValues(_.pick(SETTINGS, PROJECT_SETTING_NAMES), (definition) => definition.schema),
+  );
+  const result = Joi.validate(values, schema);
+  if (result.error) {
+    throw new Error(result.error.details[0].message);
+  }
+
+  return result.value as ISettings;
+}
+
+/**
+ * Returns the name of the environment variable that overrides the setting, e.g. SLICKNODE_DEFAULT_ENV
+ *
+ * @param name
+ */
+export function getSettingEnvName(name: keyof ISettings): string {
+  return 'SLICKNODE_' + _.snakeCase(name).toUpperCase();
+}
+
+/**
+ * Returns the setting values that are set via environment variables
+ *
+ * @param env
+ */
+export function getEnvironmentSettings(
+  env: {[name: string]: string | undefined} = process.env,
+): {[key: string]: string} {
+  return SETTING_NAMES.reduce((values: {[key: string]: string}, name) => {
+    const value = env[getSettingEnvName(name)];
+    if (value !== undefined && value !== '') {
+      values[name] = value;
+    }
+    return values;
+  }, {});
+}
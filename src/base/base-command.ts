@@ -9,19 +9,33 @@ import _ from 'lodash';
 import os from 'os';
 import path from 'path';
 import loginAuthenticator from 'slicknode-auth-email-password';
-import Client from 'slicknode-client';
+import Client, {MemoryStorage} from 'slicknode-client';
 import validator from 'validator';
+import ApiClient from '../api/client';
 import ConfigStorage from '../api/config-storage';
-import {DEFAULT_API_ENDPOINT} from '../config';
+import {createFetch, Fetch} from '../api/http';
+import {
+  getEnvironmentSettings,
+  getSettingEnvName,
+  getSettings,
+  parseProjectSettings,
+  SETTING_NAMES,
+} from '../api/settings';
+import {DEFAULT_API_ENDPOINT, DEFAULT_PROFILE_NAME} from '../config';
 import {directory} from '../parsers';
 import {
+  IConfigLayer,
   IEnvironmentConfig,
   IEnvironmentConfigMap,
   IProjectConfig,
+  ISettings,
 } from '../types';
 import {
   semverCompare,
 } from '../utils';
+import {ENVIRONMENT_REGEX, PROFILE_NAME_REGEX} from '../validation/constants';
+import validateEnvironments from '../validation/validateEnvironments';
+import ValidationError from '../validation/ValidationError';
 
 /**
  * Interval in seconds in which to check for
@@ -33,6 +47,20 @@ const LATEST_VERSION_CACHE_KEY = 'latestVersion';
 const MIN_VERSION_CACHE_KEY = 'minVersion';
 const LAST_VERSION_CHECK_CACHE_KEY = 'lastVersionCheck';
 
+// Color support of the terminal, used if no color setting is configured
+const COLOR_ENABLED = chalk.enabled;
+const COLOR_LEVEL = chalk.level;
+
+/**
+ * The flags of the base commands that are used to resolve the settings and credentials
+ */
+interface IBaseFlags {
+  dir?: string;
+  profile?: string;
+  token?: string;
+  env?: string;
+}
+
 export class BaseCommand extends Command {
   public static flags = {
     dir: flags.string({
@@ -41,8 +69,42 @@ export class BaseCommand extends Command {
       description: 'The target directory, if other than current',
       default: './',
     }),
+    profile: flags.string({
+      description: 'The auth profile with the credentials and settings to use (can also be set via SLICKNODE_PROFILE)',
+    }),
+    token: flags.string({
+      description: 'The access token to authenticate with the Slicknode API, the token is not stored ' +
+        '(can also be set via SLICKNODE_ACCESS_TOKEN)',
+    }),
   };
 
+  /**
+   * The flags that were passed to the command, parsed once before the command runs
+   */
+  protected baseFlags: IBaseFlags = {};
+
+  /**
+   * The storage for auth tokens that were passed via flag or environment variables,
+   * these tokens are only kept in memory
+   */
+  private tokenStorage: MemoryStorage | null = null;
+
+  /**
+   * The invalid environment names that the user was already warned about
+   */
+  private invalidEnvironmentNames: string[] = [];
+
+  /**
+   * Parses the flags and applies the color setting before the command runs
+   */
+  public async init() {
+    await super.init();
+    this.baseFlags = this.parse(this.constructor as typeof BaseCommand).flags;
+    const {color} = this.getSettings();
+    chalk.enabled = color === undefined ? COLOR_ENABLED : color;
+    chalk.level = color ? (COLOR_LEVEL || 1) : COLOR_LEVEL;
+  }
+
   /**
    * Runs the command
    */
@@ -54,24 +116,22 @@ export class BaseCommand extends Command {
    * Returns an instance of the client to the Slicknode API
    */
   public getClient(): Client {
-    const authStorage = new ConfigStorage(path.join(os.homedir(), '.slicknode', 'auth.json'));
-    const configStorage = this.getConfigStorage();
-
-    // Build config
-    const config = {
-      // Default values
-      endpoint: DEFAULT_API_ENDPOINT,
+    const settings = this.getSettings();
 
-      // Overwrite locally configured default values
-      ...configStorage.getValues(),
-    };
+    const {accessToken, refreshToken} = this.getAuthTokens();
+    if ((accessToken || refreshToken) && !this.tokenStorage) {
+      this.tokenStorage = new MemoryStorage();
+    }
 
-    return new Client({
-      endpoint: config.endpoint,
-      storage: authStorage,
+    return new ApiClient({
+      endpoint: settings.endpoint || DEFAULT_API_ENDPOINT,
+      fetch: this.getFetch(),
+      storage: this.tokenStorage || this.getAuthStorage(),
       headers: {
         'User-Agent': this.config.userAgent,
       },
+      ...(accessToken ? {accessToken} : {}),
+      ...(refreshToken ? {refreshToken} : {}),
     });
   }
 
@@ -79,10 +139,162 @@ export class BaseCommand extends Command {
     return new ConfigStorage(path.join(os.homedir(), '.slicknode', 'config.json'));
   }
 
+  /**
+   * Returns the settings of the current profile, merged with the global settings
+   */
+  protected getSettings(): ISettings {
+    return getSettings(this.getConfigValues());
+  }
+
+  /**
+   * Returns the config values of all sources, merged by their precedence
+   *
+   * @param profile
+   */
+  protected getConfigValues(profile: string | null = this.getProfileName()): {[key: string]: any} {
+    return this.getConfigLayers(profile).reduce(
+      (values, layer) => ({...values, ...layer.values}),
+      {},
+    );
+  }
+
+  /**
+   * Returns the config values with their origin, ordered from lowest to highest precedence:
+   * The project config, the user config, the config of the profile and environment variables
+   *
+   * @param profile
+   */
+  protected getConfigLayers(profile: string | null): IConfigLayer[] {
+    const layers: IConfigLayer[] = [];
+
+    // Project config is only available for commands with project directory
+    if (this.baseFlags.dir) {
+      const configFile = path.join(this.getProjectRoot(), 'slicknode.config.yml');
+      if (fs.existsSync(configFile)) {
+        layers.push({
+          origin: configFile,
+          values: this.readProjectConfig(configFile),
+        });
+      }
+    }
+
+    const configStorage = this.getConfigStorage();
+    layers.push({
+      origin: configStorage.file,
+      values: configStorage.getValues(),
+    });
+    if (profile) {
+      const profileConfigStorage = this.getProfileConfigStorage(profile);
+      layers.push({
+        origin: profileConfigStorage.file,
+        values: profileConfigStorage.getValues(),
+      });
+    }
+
+    const envValues = getEnvironmentSettings();
+    SETTING_NAMES.filter((name) => envValues.hasOwnProperty(name)).forEach((name) => {
+      layers.push({
+        origin: `environment variable ${getSettingEnvName(name)}`,
+        values: {[name]: envValues[name]},
+      });
+    });
+
+    return layers;
+  }
+
+  /**
+   * Returns the fetch function for network requests with the proxy, CA bundle and timeout settings
+   */
+  protected getFetch(): Fetch {
+    try {
+      return createFetch(this.getSettings());
+    } catch (e) {
+      return this.error(chalk.red(e.message));
+    }
+  }
+
+  /**
+   * Returns the storage for the auth tokens of the logged in user of the current profile
+   */
+  protected getAuthStorage(): ConfigStorage {
+    const profile = this.getProfileName();
+    return new ConfigStorage(
+      profile ?
+        path.join(this.getProfileDir(profile), 'auth.json') :
+        path.join(os.homedir(), '.slicknode', 'auth.json'),
+    );
+  }
+
+  /**
+   * Returns the profile setting for new environments, so that environments
+   * keep using the profile that they were created with
+   */
+  protected getEnvironmentProfileConfig(): {profile?: string} {
+    const profile = this.getProfileName();
+    return profile ? {profile} : {};
+  }
+
+  /**
+   * Returns the storage for the settings of the profile, the settings of the
+   * default profile are stored in the global config
+   *
+   * @param profile
+   */
+  protected getProfileConfigStorage(profile: string | null): ConfigStorage {
+    return profile ?
+      new ConfigStorage(path.join(this.getProfileDir(profile), 'config.json')) :
+      this.getConfigStorage();
+  }
+
+  /**
+   * Returns the directory where the auth tokens and settings of the profile are stored
+   *
+   * @param profile
+   */
+  protected getProfileDir(profile: string): string {
+    return path.join(os.homedir(), '.slicknode', 'profiles', profile);
+  }
+
+  /**
+   * Returns the name of the auth profile to use for the command, NULL for the default profile:
+   * The name that was passed via the --profile flag, the SLICKNODE_PROFILE variable,
+   * the profile of the environment or the profile that was selected via "slicknode profile use"
+   */
+  protected getProfileName(): string | null {
+    let name = this.baseFlags.profile || process.env.SLICKNODE_PROFILE || null;
+    // Commands without project directory only use the selected profile
+    if (!name && this.baseFlags.dir) {
+      const configFile = path.join(this.getProjectRoot(), '.slicknoderc');
+      const envMap = fs.existsSync(configFile) ? this.readEnvironments(configFile) : {};
+      // The profile is not known yet, so the defaultEnv setting of the profile is not used
+      const env = envMap[this.resolveEnvironmentName(
+        this.baseFlags.env,
+        getSettings(this.getConfigValues(null)).defaultEnv,
+      )];
+      name = (env && env.profile) || null;
+    }
+    if (!name) {
+      name = this.getConfigStorage().getItem('profile');
+    }
+    if (!name || name === DEFAULT_PROFILE_NAME) {
+      return null;
+    }
+    if (!name.match(PROFILE_NAME_REGEX)) {
+      this.error(`The profile name "${name}" is invalid, it can only contain lowercase letters, numbers and hyphens`);
+    }
+
+    return name;
+  }
+
   /**
    * @returns {Promise.<void>}
    */
   protected async authenticate(): Promise<boolean> {
+    const {accessToken, refreshToken} = this.getAuthTokens();
+    if (accessToken) {
+      return true;
+    }
+
     const client = this.getClient();
     if (client.hasAccessToken()) {
       return true;
@@ -98,6 +310,22 @@ export class BaseCommand extends Command {
       }
     }
 
+    if (refreshToken) {
+      this.error(chalk.red(
+        'Authentication failed: The refresh token in SLICKNODE_REFRESH_TOKEN is invalid or expired',
+      ));
+      return false;
+    }
+
+    // Login requires user input
+    if (!this.isInteractive()) {
+      this.error(chalk.red(
+        'Authentication required: Provide an access token via the --token flag or the ' +
+        'SLICKNODE_ACCESS_TOKEN environment variable, or run "slicknode login" in an interactive terminal',
+      ));
+      return false;
+    }
+
     // Ask for username password
     this.log('\n' + chalk.bold('Login:'));
     this.log('Enter email address and password of your slicknode account');
@@ -143,6 +371,36 @@ export class BaseCommand extends Command {
     return false;
   }
 
+  /**
+   * Returns the auth tokens that were passed via the --token flag or the
+   * SLICKNODE_ACCESS_TOKEN and SLICKNODE_REFRESH_TOKEN environment variables
+   */
+  protected getAuthTokens(): {accessToken: string | null, refreshToken: string | null} {
+    return {
+      accessToken: this.baseFlags.token || process.env.SLICKNODE_ACCESS_TOKEN || null,
+      refreshToken: process.env.SLICKNODE_REFRESH_TOKEN || null,
+    };
+  }
+
+  /**
+   * Returns TRUE if the command runs in an interactive terminal where the user can be prompted for input
+   */
+  protected isInteractive(): boolean {
+    return Boolean(process.stdin.isTTY);
+  }
+
+  /**
+   * Prints the local validation errors with the code frame of the error location
+   * to stderr. Written directly to the stream, so the code frames are not wrapped
+   *
+   * @param errors
+   */
+  protected printValidationErrors(errors: ValidationError[]) {
+    errors.forEach((error, index) => {
+      process.stderr.write(chalk.red(`  ${index + 1}. ${error.toString()}`.replace(/\n(?=.)/g, '\n  ')) + '\n\n');
+    });
+  }
+
   /**
    * Checks if the CLI version is too old.
    * If there is a newer version available, logs a message. If the current version is incompatible
@@ -150,6 +408,9 @@ export class BaseCommand extends Command {
    */
   protected async updateRequired(useCache: boolean = true): Promise<boolean> {
     const configStorage = this.getConfigStorage();
+    const settings = this.getSettings();
+    // The minimum required version is always checked, only the check for new versions can be disabled
+    const checkLatestVersion = !settings.disableUpdateCheck;
     const lastVersionCheck = parseInt(configStorage.getItem(LAST_VERSION_CHECK_CACHE_KEY) || '0', 10);
     let minVersion = configStorage.getItem(MIN_VERSION_CACHE_KEY);
     let latestVersion = configStorage.getItem(LATEST_VERSION_CACHE_KEY);
@@ -169,10 +430,10 @@ export class BaseCommand extends Command {
     const currentTimestamp = Math.floor((new Date()).getTime() / 1000);
     const cacheExpired = (currentTimestamp - VERSION_CHECK_INTERVAL > lastVersionCheck);
 
-    if (!useCache || cacheExpired) {
+    if (checkLatestVersion && (!useCache || cacheExpired)) {
       // Load latest version number from npm
       try {
-        const npmResponse = await fetch('https://registry.npmjs.org/slicknode');
+        const npmResponse = await this.getFetch()('https://registry.npmjs.org/slicknode');
         const data = await npmResponse.json();
         latestVersion = _.get(data, 'dist-tags.latest') || currentVersion;
 
@@ -225,7 +486,7 @@ export class BaseCommand extends Command {
 
     // Compare current with latest version
     try {
-      if (latestVersion && semverCompare(currentVersion, String(latestVersion)) < 0) {
+      if (checkLatestVersion && latestVersion && semverCompare(currentVersion, String(latestVersion)) < 0) {
         this.error(
           `INFO: There is a new slicknode CLI version (${latestVersion}) available.\n` +
           'To upgrade to the latest version, run: \n\n' +
@@ -240,39 +501,27 @@ export class BaseCommand extends Command {
   }
 
   /**
-   * The Returns the environment config with the given key
-   * NULL if could not be found
+   * Returns the name of the environment to use for the command:
+   * The name that was passed via the --env flag, the SLICKNODE_ENV variable,
+   * the environment that was selected via "slicknode env use", the defaultEnv setting or "default"
    *
    * @param name
+   */
+  protected async getEnvironmentName(name?: string): Promise<string> {
+    return this.resolveEnvironmentName(name, this.getSettings().defaultEnv);
+  }
+
+  /**
+   * Returns all configured environments of the project
+   * NULL if the project has no .slicknoderc file
+   *
    * @param silent
-   * @returns {Promise.<void>}
    */
-  protected async getEnvironment(
-    name: string = 'default',
+  protected async getEnvironments(
     silent: boolean = false,
-  ): Promise<IEnvironmentConfig | null> {
-    try {
-      const dir = this.getProjectRoot();
-      const data = fs.readFileSync(
-        path.join(dir, '.slicknoderc'),
-        'utf8',
-      );
-      try {
-        const envMap = yaml.safeLoad(data) as any;
-        if (typeof envMap === 'object' && envMap.hasOwnProperty(name)) {
-          // @TODO: Validate
-          return envMap[name];
-        }
-
-        return null;
-      } catch (e) {
-        this.error(chalk.red(
-          'Could not parse .slicknoderc file.\n' +
-          e.message,
-        ));
-        return null;
-      }
-    } catch (e) {
+  ): Promise<IEnvironmentConfigMap | null> {
+    const configFile = path.join(this.getProjectRoot(), '.slicknoderc');
+    if (!fs.existsSync(configFile)) {
       if (!silent) {
         this.log(
           'There are no environments created yet. \n' +
@@ -282,6 +531,28 @@ export class BaseCommand extends Command {
       }
       return null;
     }
+
+    return this.readEnvironments(configFile);
+  }
+
+  /**
+   * The Returns the environment config with the given key
+   * NULL if could not be found
+   *
+   * @param name
+   * @param silent
+   * @returns {Promise.<void>}
+   */
+  protected async getEnvironment(
+    name: string = 'default',
+    silent: boolean = false,
+  ): Promise<IEnvironmentConfig | null> {
+    const envMap = await this.getEnvironments(silent);
+    if (envMap && envMap.hasOwnProperty(name)) {
+      return envMap[name];
+    }
+
+    return null;
   }
 
   /**
@@ -297,51 +568,36 @@ export class BaseCommand extends Command {
     targetDir: string | null = null,
   ): Promise<null> { // eslint-disable-line no-unused-vars
     // Read existing config
+    const configFile = path.join(targetDir || this.getProjectRoot(), '.slicknoderc');
     let envMap: IEnvironmentConfigMap = {};
-    try {
-      const dir = targetDir || this.getProjectRoot();
-      const configFile = path.join(dir, '.slicknoderc');
-      let data = '{}';
-      try {
-        data = fs.readFileSync(configFile, 'utf8');
-      } catch (e) {
-        this.log('No .slicknoderc file found. Creating new environment config.');
-      }
+    if (fs.existsSync(configFile)) {
+      envMap = this.readEnvironments(configFile);
+    } else {
+      this.log('No .slicknoderc file found. Creating new environment config.');
+    }
 
-      try {
-        envMap = JSON.parse(data);
-        if (typeof envMap !== 'object') {
-          throw new Error('.slicknoderc file has an invalid format');
-        }
-      } catch (e) {
-        this.error(chalk.red(
-          'Could not parse .slicknoderc file.\n' +
-          e.message,
-        ));
-        return null;
-      }
+    // If we have value, update environment config
+    if (config) {
+      envMap[name] = config;
+    } else {
+      // Remove environment from env map
+      delete envMap[name];
+    }
 
-      // If we have value, update environment config
-      if (config) {
-        // @TODO: Validate
-        envMap[name] = config;
-      } else {
-        // Remove environment from env map
-        delete envMap[name];
-      }
+    const errors = validateEnvironments(envMap);
+    if (errors.length) {
+      this.printValidationErrors(errors);
+      this.error(chalk.red(`Could not update environment "${name}" in .slicknoderc file`));
+    }
 
-      // Write new .slicknoderc file
+    // Write new .slicknoderc file
+    try {
       fs.writeFileSync(configFile, JSON.stringify(envMap, null, 2));
-
-      return null;
     } catch (e) {
-      this.log(
-        'There are no environments created yet. \n' +
-        'To create a new environment, run:\n\n' +
-        '  ' + chalk.bold('slicknode init') + '\n',
-      );
-      return null;
+      this.error(chalk.red(`Could not write .slicknoderc file: ${e.message}`));
     }
+
+    return null;
   }
 
   /**
@@ -389,4 +645,79 @@ export class BaseCommand extends Command {
   protected getDefaultModulesDir(): string {
     return path.join(this.getProjectRoot(), 'modules');
   }
+
+  /**
+   * Returns the name of the environment for the name of the --env flag
+   *
+   * @param name
+   * @param defaultEnv
+   */
+  private resolveEnvironmentName(name?: string, defaultEnv?: string): string {
+    if (name) {
+      return name;
+    }
+    if (process.env.SLICKNODE_ENV) {
+      return process.env.SLICKNODE_ENV;
+    }
+    const configFile = path.join(this.getProjectRoot(), '.slicknoderc');
+    const envMap = fs.existsSync(configFile) ? this.readEnvironments(configFile) : {};
+    const defaultName = Object.keys(envMap).find((key) => Boolean(envMap[key].default));
+    return defaultName || defaultEnv || 'default';
+  }
+
+  /**
+   * Reads, parses and validates the project config file
+   *
+   * @param configFile
+   */
+  private readProjectConfig(configFile: string): {[key: string]: any} {
+    try {
+      return parseProjectSettings(
+        (yaml.safeLoad(fs.readFileSync(configFile, 'utf8')) || {}) as {[key: string]: any},
+      );
+    } catch (e) {
+      return this.error(chalk.red(
+        'The slicknode.config.yml file has errors, fix the configuration and try again.\n' +
+        e.message,
+      ));
+    }
+  }
+
+  /**
+   * Reads, parses and validates the .slicknoderc file. The file is written as JSON, but
+   * parsed as YAML to support files of previous versions, which is a superset of JSON
+   *
+   * @param configFile
+   */
+  private readEnvironments(configFile: string): IEnvironmentConfigMap {
+    const body = fs.readFileSync(configFile, 'utf8');
+    let envMap;
+    try {
+      envMap = yaml.safeLoad(body) as IEnvironmentConfigMap;
+    } catch (e) {
+      return this.error(chalk.red(
+        'Could not parse .slicknoderc file.\n' +
+        e.message,
+      ));
+    }
+
+    const errors = validateEnvironments(envMap, {file: configFile, body});
+    if (errors.length) {
+      this.printValidationErrors(errors);
+      this.error(chalk.red('The .slicknoderc file has errors, fix the environment configuration and try again'));
+    }
+
+    // Previous versions of the CLI did not validate the environment names, so they have to be renamed
+    Object.keys(envMap)
+      .filter((name) => !name.match(ENVIRONMENT_REGEX) && !this.invalidEnvironmentNames.includes(name))
+      .forEach((name) => {
+        this.invalidEnvironmentNames.push(name);
+        this.warn(
+          `The environment name "${name}" is invalid, it can only contain lowercase letters, numbers and hyphens. ` +
+          `Rename the environment with: slicknode env:rename ${name} <new-name>`,
+        );
+      });
+
+    return envMap;
+  }
 }
@@ -6,7 +6,7 @@ export class EnvCommand extends BaseCommand {
     ...BaseCommand.flags,
     env: flags.string({
       char: 'e',
-      description: 'The configured environment name',
+      description: 'The configured environment name, defaults to SLICKNODE_ENV or the default environment',
     }),
   };
 }
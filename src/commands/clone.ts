@@ -0,0 +1,189 @@
+import {flags} from '@oclif/command';
+import chalk from 'chalk';
+import cli from 'cli-ux';
+import fs, {mkdirpSync, readdir} from 'fs-extra';
+import yaml from 'js-yaml';
+import _ from 'lodash';
+import path from 'path';
+import {BaseCommand} from '../base/base-command';
+import {IProjectConfig} from '../types';
+import {loadProjectVersion} from '../utils';
+import {pullDependencies} from '../utils/pullDependencies';
+import {ENVIRONMENT_REGEX, PROJECT_ALIAS_REGEX} from '../validation/constants';
+
+const PROJECT_FIELDS = `
+    id
+    alias
+    name
+    endpoint
+    version {
+      id
+      bundle
+    }`;
+
+export const CLONE_PROJECT_BY_ALIAS_QUERY = `query CloneProjectByAlias($alias: String!) {
+  registryUrl
+  project: getProjectByAlias(alias: $alias) {${PROJECT_FIELDS}
+  }
+}`;
+
+export const CLONE_PROJECT_BY_ID_QUERY = `query CloneProjectById($id: ID!) {
+  registryUrl
+  project: getProjectById(id: $id) {${PROJECT_FIELDS}
+  }
+}`;
+
+export default class CloneCommand extends BaseCommand {
+  public static command = 'clone';
+  public static description = 'Clone an existing Slicknode project into a new directory';
+
+  public static examples = [
+    `$ slicknode clone my-project-alias
+`,
+    `$ slicknode clone my-project-alias my-project --env production
+`,
+  ];
+
+  public static args = [
+    {
+      name: 'project',
+      description: 'The alias or ID of the project',
+      required: true,
+    },
+    {
+      name: 'dir',
+      description: 'The target directory, defaults to the project alias',
+    },
+  ];
+
+  public static flags = {
+    ...BaseCommand.flags,
+    env: flags.string({
+      char: 'e',
+      description: 'The name of the environment for the cloned project',
+      default: 'default',
+    }),
+  };
+
+  public async run() {
+    const input = this.parse(CloneCommand);
+    const envName = input.flags.env as string;
+    if (!envName.match(ENVIRONMENT_REGEX)) {
+      this.error(
+        `The environment name "${envName}" is invalid, ` +
+        'it can only contain lowercase letters, numbers and hyphens',
+      );
+      return;
+    }
+
+    // Check for version updates
+    if (await this.updateRequired()) {
+      return;
+    }
+
+    // Ensure authentication
+    const authenticated = await this.authenticate();
+    if (!authenticated) {
+      return;
+    }
+
+    // Project aliases are lowercase, everything else is treated as an ID
+    const client = this.getClient();
+    const result = input.args.project.match(PROJECT_ALIAS_REGEX) ?
+      await client.fetch(CLONE_PROJECT_BY_ALIAS_QUERY, {alias: input.args.project}) :
+      await client.fetch(CLONE_PROJECT_BY_ID_QUERY, {id: input.args.project});
+    if (result.errors && result.errors.length) {
+      this.error(`Error loading project: ${result.errors[0].message}`);
+      return;
+    }
+    const project = _.get(result, 'data.project');
+    if (!project) {
+      this.error(
+        `The project "${input.args.project}" does not exist or you don't have enough permissions.`,
+      );
+      return;
+    }
+    const bundle = _.get(project, 'version.bundle');
+    if (!bundle) {
+      this.error(
+        'The project is not fully initialized yet, possibly because of no available capacity. ' +
+        'Try to clone the project later.',
+      );
+      return;
+    }
+
+    if (!input.args.dir && !project.alias) {
+      this.error(
+        'The project does not have an alias, provide the target directory: ' +
+        `${chalk.bold(`slicknode clone ${input.args.project} <dir>`)}`,
+      );
+      return;
+    }
+
+    // Create target directory, has to be empty
+    const targetDir = path.resolve(input.args.dir || project.alias);
+    const dirCreated = !fs.existsSync(targetDir);
+    try {
+      mkdirpSync(targetDir);
+    } catch (e) {
+      this.error(`ERROR: Failed to create project directory ${targetDir}. ${e.message}`);
+    }
+    const content = await readdir(targetDir);
+    if (content.length > 0) {
+      this.error(
+        'The directory already exists and is not empty. ' +
+        `Delete the content or clone the project into a different directory: ${targetDir}`,
+      );
+      return;
+    }
+
+    try {
+      cli.action.start('Loading project source');
+      await loadProjectVersion(targetDir, bundle, this.getFetch());
+      cli.action.stop();
+
+      // Update environment
+      await this.updateEnvironment(envName, {
+        endpoint: project.endpoint,
+        version: project.version.id,
+        alias: project.alias,
+        name: project.name,
+        id: project.id,
+        ...this.getEnvironmentProfileConfig(),
+      }, targetDir);
+
+      // Add cachefiles to gitignore
+      fs.appendFileSync(path.join(targetDir, '.gitignore'), '# Slicknode cache data\n.slicknode\n\n', 'utf8');
+
+      // Update non private modules from registry
+      const config = yaml.safeLoad(
+        fs.readFileSync(path.join(targetDir, 'slicknode.yml'), 'utf8'),
+      ) as IProjectConfig;
+      await pullDependencies({
+        config,
+        client,
+        dir: targetDir,
+        repositoryUrl: _.get(result, 'data.registryUrl'),
+        fetch: this.getFetch(),
+      });
+    } catch (e) {
+      // Remove the partially cloned project, so the clone can be retried
+      if (dirCreated) {
+        fs.removeSync(targetDir);
+      } else {
+        fs.emptyDirSync(targetDir);
+      }
+      this.error(`Cloning project failed: ${e.message}`);
+      return;
+    }
+
+    this.log(chalk.green(
+      `\n\nThe project ${chalk.bold(project.name)} was cloned into ${targetDir}\n`,
+    ));
+    this.log(`
+Start exploring now...
+- Change to project directory: ${chalk.bold(`cd ${path.relative(process.cwd(), targetDir) || '.'}`)}
+- Check the status: ${chalk.bold('slicknode status')}
+`);
+  }
+}
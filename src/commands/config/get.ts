@@ -1,3 +1,4 @@
+import {SETTING_NAMES} from '../../api/settings';
 import {BaseCommand} from '../../base/base-command';
 
 export default class ConfigGet extends BaseCommand {
@@ -11,12 +12,16 @@ export default class ConfigGet extends BaseCommand {
   public static args = [{
     name: 'name',
     required: true,
-    options: [ 'endpoint' ],
+    options: SETTING_NAMES,
   }];
 
+  public static flags = {
+    ...BaseCommand.flags,
+  };
+
   public async run() {
     const {args} = this.parse(ConfigGet);
-    const value = this.getConfigStorage().getItem(args.name);
-    this.log(value || '');
+    const value = this.getConfigValues()[args.name];
+    this.log(value === undefined || value === null ? '' : String(value));
   }
 }
@@ -0,0 +1,45 @@
+import {flags} from '@oclif/command';
+import chalk from 'chalk';
+import _ from 'lodash';
+import {SETTING_NAMES, SETTINGS} from '../../api/settings';
+import {BaseCommand} from '../../base/base-command';
+
+export default class ConfigList extends BaseCommand {
+  public static description = 'Lists all settings with their configured values';
+
+  public static examples = [
+    `$ slicknode config:list
+`,
+    `$ slicknode config:list --origin
+`,
+  ];
+
+  public static flags = {
+    ...BaseCommand.flags,
+    origin: flags.boolean({
+      description: 'Show the source of each configured value, e.g. the config file or environment variable',
+    }),
+  };
+
+  public async run() {
+    const input = this.parse(ConfigList);
+    const layers = this.getConfigLayers(this.getProfileName());
+    const values = this.getConfigValues();
+    const settings = this.getSettings();
+    const nameLength = Math.max(...SETTING_NAMES.map((name) => name.length));
+
+    SETTING_NAMES.forEach((name) => {
+      const value = values[name];
+      let displayValue = chalk.dim('(not set)');
+      if (value !== undefined && value !== null) {
+        displayValue = String(value) + (settings[name] === undefined ? chalk.red(' (invalid, ignored)') : '');
+        if (input.flags.origin) {
+          const layer = _.findLast(layers, ({values: layerValues}) => layerValues.hasOwnProperty(name));
+          displayValue += chalk.dim(`  (${layer!.origin})`);
+        }
+      }
+      this.log(chalk.bold(name.padEnd(nameLength)) + '  ' + displayValue);
+      this.log(' '.repeat(nameLength + 2) + chalk.dim(SETTINGS[name].description));
+    });
+  }
+}
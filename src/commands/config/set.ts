@@ -1,10 +1,14 @@
+import {parseSettingValue, SETTING_NAMES} from '../../api/settings';
 import {BaseCommand} from '../../base/base-command';
+import {ISettings} from '../../types';
 
 export default class ConfigSet extends BaseCommand {
   public static description = 'Sets the configuration value for a setting';
 
   public static examples = [
     `$ slicknode config:set NAME VALUE
+`,
+    `$ slicknode config:set timeout 30000
 `,
   ];
 
@@ -12,7 +16,7 @@ export default class ConfigSet extends BaseCommand {
     {
       name: 'name',
       required: true,
-      options: [ 'endpoint' ],
+      options: SETTING_NAMES,
     },
     {
       name: 'value',
@@ -20,8 +24,20 @@ export default class ConfigSet extends BaseCommand {
     },
   ];
 
+  public static flags = {
+    ...BaseCommand.flags,
+  };
+
   public async run() {
     const {args} = this.parse(ConfigSet);
-    this.getConfigStorage().setItem(args.name, args.value);
+    let value;
+    try {
+      value = parseSettingValue(args.name as keyof ISettings, args.value);
+    } catch (e) {
+      this.error(e.message);
+      return;
+    }
+
+    this.getProfileConfigStorage(this.getProfileName()).setItem(args.name, value);
   }
 }
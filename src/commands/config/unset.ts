@@ -0,0 +1,28 @@
+import {SETTING_NAMES} from '../../api/settings';
+import {BaseCommand} from '../../base/base-command';
+
+export default class ConfigUnset extends BaseCommand {
+  public static description = 'Removes the configuration value of a setting and restores the default';
+
+  public static examples = [
+    `$ slicknode config:unset proxy
+`,
+  ];
+
+  public static args = [
+    {
+      name: 'name',
+      required: true,
+      options: SETTING_NAMES,
+    },
+  ];
+
+  public static flags = {
+    ...BaseCommand.flags,
+  };
+
+  public async run() {
+    const {args} = this.parse(ConfigUnset);
+    this.getProfileConfigStorage(this.getProfileName()).removeItem(args.name);
+  }
+}
@@ -21,7 +21,7 @@ export default class ConsoleCommand extends EnvCommand {
     const input = this.parse(ConsoleCommand);
 
     const environment = await this.getEnvironment(
-      input.flags.env || 'default',
+      await this.getEnvironmentName(input.flags.env),
     );
 
     if (!environment) {
@@ -19,7 +19,7 @@ export default class DeleteCommand extends BaseCommand {
     }),
     env: flags.string({
       char: 'e',
-      description: 'The environment to delete',
+      description: 'The environment to delete, defaults to SLICKNODE_ENV or the default environment',
     }),
   };
 
@@ -79,14 +79,14 @@ export default class DeleteCommand extends BaseCommand {
     }
 
     // Update local environment
-    await this.updateEnvironment(input.flags.env || 'default', null);
+    await this.updateEnvironment(await this.getEnvironmentName(input.flags.env), null);
 
     this.log(chalk.green('Project successfully deleted'));
   }
 
   public async getOrCreateEnvironment(): Promise<IEnvironmentConfig> {
     const input = this.parse(DeleteCommand);
-    const env = await this.getEnvironment(input.flags.env || 'default');
+    const env = await this.getEnvironment(await this.getEnvironmentName(input.flags.env));
     if (env) {
       return env;
     }
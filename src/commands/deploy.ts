@@ -6,7 +6,7 @@ import chalk from 'chalk';
 import inquirer from 'inquirer';
 import {
   ICluster,
-  IEnvironmentConfig, IProjectChangeError,
+  IEnvironmentConfig, IMigrationPlan, IProjectChange,
 } from '../types';
 import {
   loadProjectVersion, randomName,
@@ -16,14 +16,16 @@ import StatusCommand from './status';
 
 import {flags} from '@oclif/command';
 import cli from 'cli-ux';
+import fs from 'fs';
 import _ from 'lodash';
-import fetch from 'node-fetch';
+import path from 'path';
 import uuid from 'uuid';
 import * as parsers from '../parsers';
 import {getCluster} from '../utils/getCluster';
 import {isDependencyTreeLoaded} from '../utils/isDependencyTreeLoaded';
+import {confirmDeployment, getMigrationErrors, migrateProject, printErrors} from '../utils/migration';
 import {pullDependencies} from '../utils/pullDependencies';
-import {PROJECT_ALIAS_REGEX} from '../validation';
+import {ENVIRONMENT_REGEX, PROJECT_ALIAS_REGEX} from '../validation/constants';
 import {CREATE_PROJECT_MUTATION, LIST_CLUSTER_QUERY} from './init';
 
 interface IChangeCounts {
@@ -38,21 +40,35 @@ export default class DeployCommand extends StatusCommand {
 
   public static flags = {
     ...StatusCommand.flags,
-    name: flags.string({
+    'name': flags.string({
       char: 'n',
       description: 'The name of the project as displayed in the console',
       required: false,
     }),
-    force: flags.boolean({
+    'force': flags.boolean({
       char: 'f',
-      description: 'Force the deployment without asking for confirmation',
+      description: 'Force the deployment without asking for confirmation, breaking changes still need to be ' +
+        'confirmed or allowed with --allow-breaking',
     }),
-    account: flags.string({
+    'fail-on-breaking': flags.boolean({
+      description: 'Abort the deployment with an error if the changes contain breaking changes',
+      default: false,
+      exclusive: [ 'allow-breaking' ],
+    }),
+    'allow-breaking': flags.boolean({
+      description: 'Apply breaking changes without asking for confirmation, e.g. in CI',
+      default: false,
+    }),
+    'plan': flags.string({
+      description: 'Only deploy if the pending changes match the plan file created with "slicknode status --out"',
+    }),
+    'account': flags.string({
       char: 'a',
-      description: 'The account identifier where the project should be deployed',
+      description: 'The account identifier where the project should be deployed ' +
+        '(defaults to the defaultAccount setting)',
       required: false,
     }),
-    alias: flags.string({
+    'alias': flags.string({
       description: 'The alias of the project which is part of the endpoint URL',
     }),
   };
@@ -90,6 +106,7 @@ export default class DeployCommand extends StatusCommand {
         client,
         dir: projectRoot,
         config,
+        fetch: this.getFetch(),
       });
     }
 
@@ -97,49 +114,76 @@ export default class DeployCommand extends StatusCommand {
 
     if (errors.length) {
       this.log(chalk.red('Project configuration has errors: \n'));
-      errors.forEach((error, index) => {
-        this.error(chalk.red(`  ${index + 1}. ${error.toString()}\n`), {exit: false});
-      });
+      this.printValidationErrors(errors);
       this.error(chalk.red('Deployment aborted'));
       return;
     }
 
     // Run migration
-    const env = await this.getOrCreateEnvironment();
+    const envName = await this.getEnvironmentName(input.flags.env);
+    const {env, pulled} = await this.checkDeployedVersion(
+      envName,
+      await this.getOrCreateEnvironment(),
+      !input.flags.force && this.isInteractive(),
+    );
+    if (pulled) {
+      this.log(
+        'The latest changes were pulled from the server. Apply your local changes again ' +
+        'and run the deploy command to deploy them.',
+      );
+      return;
+    }
     // cli.action.start('Validating project status');
-    const validStatus = await this.loadAndPrintStatus(env);
+    const status = await this.loadAndPrintStatus(env);
     // cli.action.stop();
 
     // Check if we have valid status
-    if (!validStatus) {
+    if (!status) {
       return;
     }
+    const {plan, bundle} = status;
 
-    // Confirm changes
-    if (!input.flags.force) {
-      const values = await inquirer.prompt([
-        {
-          name: 'confirm',
-          type: 'confirm',
-          message: 'Do you want to deploy the changes?',
-          default: false,
-        },
-      ]) as {confirm: boolean};
-      if (!values.confirm) {
-        this.log('Deployment aborted');
+    if (input.flags.plan) {
+      const planError = this.comparePlan(input.flags.plan, plan);
+      if (planError) {
+        this.error(chalk.red(`Deployment aborted: ${planError}`));
         return;
       }
     }
 
+    const breakingCount = plan.changes.filter((change) => change.breaking).length;
+    if (breakingCount && input.flags['fail-on-breaking']) {
+      this.error(chalk.red(
+        `Deployment aborted: The changes contain ${breakingCount} breaking change${breakingCount === 1 ? '' : 's'}`,
+      ));
+      return;
+    }
+
+    // Confirm changes
+    let confirmed;
+    try {
+      confirmed = await confirmDeployment(plan.changes, {
+        interactive: this.isInteractive(),
+        force: input.flags.force,
+        allowBreaking: input.flags['allow-breaking'],
+      });
+    } catch (e) {
+      this.error(chalk.red(e.message));
+      return;
+    }
+    if (!confirmed) {
+      this.log('Deployment aborted');
+      return;
+    }
+
+    // Deploy the bundle that was checked in the dry run, changes of the files in the meantime are not deployed
     cli.action.start('Deploying changes');
-    const result = await this.migrateProject(false, await env);
+    const result = await migrateProject({client: this.getClient(), env, bundle, dryRun: false});
     cli.action.stop();
 
-    const serverErrors = _.get(result, 'data.migrateProject.errors', []).filter(
-      (e: IProjectChangeError) => e,
-    );
+    const serverErrors = getMigrationErrors(result);
     if (serverErrors.length) {
-      this.printErrors(serverErrors);
+      printErrors(serverErrors, (message) => this.log(message));
       return;
     }
 
@@ -159,14 +203,20 @@ export default class DeployCommand extends StatusCommand {
     // Load project files from server
     cli.action.start('Updating local source files');
     try {
-      await loadProjectVersion(this.getProjectRoot(), project.version.bundle);
+      await loadProjectVersion(this.getProjectRoot(), project.version.bundle, this.getFetch());
     } catch (e) {
       this.error('Error loading project config from servers');
       return;
     }
     cli.action.stop();
 
-    // Update environment
+    // Update environment with the deployed version
+    if (project.version.id) {
+      await this.updateEnvironment(envName, {
+        ...env,
+        version: project.version.id,
+      });
+    }
 
     // Create deployment summary
     const changes = _.get(result, 'data.migrateProject.changes', [])
@@ -183,13 +233,60 @@ export default class DeployCommand extends StatusCommand {
     this.log(chalk.green('Deployment successful!'));
   }
 
+  /**
+   * Compares the plan file with the result of the dry run
+   * Returns an error message if the plan cannot be deployed, NULL otherwise
+   *
+   * @param planFile
+   * @param currentPlan
+   */
+  public comparePlan(planFile: string, currentPlan: IMigrationPlan): string | null {
+    let plan: IMigrationPlan;
+    try {
+      plan = JSON.parse(fs.readFileSync(path.resolve(planFile), 'utf8'));
+    } catch (e) {
+      return `Could not load plan file ${planFile}: ${e.message}`;
+    }
+
+    if (plan.checksum !== currentPlan.checksum) {
+      return 'The project files have changed since the plan was created';
+    }
+    if (plan.baseVersion !== currentPlan.baseVersion) {
+      return 'The project was deployed by someone else since the plan was created';
+    }
+
+    const normalizeChanges = (changes: IProjectChange[]) => _.sortBy(
+      (changes || []).map((change) => ({
+        type: change.type,
+        description: change.description,
+        path: change.path || [],
+        module: change.module || null,
+        breaking: Boolean(change.breaking),
+      })),
+      (change) => JSON.stringify(change),
+    );
+    if (!_.isEqual(normalizeChanges(plan.changes), normalizeChanges(currentPlan.changes))) {
+      return 'The pending changes are different from the changes in the plan';
+    }
+
+    return null;
+  }
+
   public async getOrCreateEnvironment(): Promise<IEnvironmentConfig> {
     const input = this.parse(DeployCommand);
-    const name = input.flags.env || 'default';
+    const name = await this.getEnvironmentName(input.flags.env);
     const env = await this.getEnvironment(name);
     if (env) {
       return env;
     }
+
+    // Validate the name before the project is created, otherwise it cannot be added to the .slicknoderc file
+    if (!name.match(ENVIRONMENT_REGEX)) {
+      this.error(
+        `The environment name "${name}" is invalid, ` +
+        'it can only contain lowercase letters, numbers and hyphens',
+      );
+    }
     const client = this.getClient();
 
     // We don't have project for this env yet, create one...
@@ -251,6 +348,7 @@ export default class DeployCommand extends StatusCommand {
     // Determine data center
     const cluster = await getCluster({
       client,
+      fetch: this.getFetch(),
     });
     if (!cluster) {
       this.error(chalk.red(
@@ -264,7 +362,7 @@ export default class DeployCommand extends StatusCommand {
         name: newName,
         alias: newAlias,
         cluster: cluster.id,
-        account: input.flags.account || null,
+        account: input.flags.account || this.getSettings().defaultAccount || null,
       },
     };
 
@@ -291,6 +389,7 @@ export default class DeployCommand extends StatusCommand {
       alias: project.alias,
       name: project.name,
       id: project.id,
+      ...this.getEnvironmentProfileConfig(),
     };
     await this.updateEnvironment(name, envConfig);
 
@@ -12,7 +12,7 @@ export default class EndpointCommand extends EnvCommand {
   public async run() {
     const input = this.parse(EndpointCommand);
     const environment = await this.getEnvironment(
-      input.flags.env || 'default',
+      await this.getEnvironmentName(input.flags.env),
     );
     if (environment) {
       this.log(environment.endpoint);
@@ -0,0 +1,106 @@
+import chalk from 'chalk';
+import _ from 'lodash';
+import {BaseCommand} from '../../base/base-command';
+import {ENVIRONMENT_REGEX, PROJECT_ALIAS_REGEX} from '../../validation/constants';
+
+const PROJECT_FIELDS = `
+    id
+    alias
+    name
+    endpoint
+    version {
+      id
+    }`;
+
+export const GET_PROJECT_BY_ALIAS_QUERY = `query GetProjectByAlias($alias: String!) {
+  project: getProjectByAlias(alias: $alias) {${PROJECT_FIELDS}
+  }
+}`;
+
+export const GET_PROJECT_BY_ID_QUERY = `query GetProjectById($id: ID!) {
+  project: getProjectById(id: $id) {${PROJECT_FIELDS}
+  }
+}`;
+
+export default class EnvAddCommand extends BaseCommand {
+  public static command = 'env add';
+  public static description = 'Add an existing project as a new environment';
+
+  public static examples = [
+    `$ slicknode env:add staging my-project-alias
+`,
+  ];
+
+  public static args = [
+    {
+      name: 'name',
+      description: 'The name of the new environment',
+      required: true,
+    },
+    {
+      name: 'project',
+      description: 'The alias or ID of the existing project',
+      required: true,
+    },
+  ];
+
+  public static flags = {
+    ...BaseCommand.flags,
+  };
+
+  public async run() {
+    const input = this.parse(EnvAddCommand);
+    const {name, project: projectIdentifier} = input.args;
+    const config = await this.getConfig();
+    if (!config) {
+      return;
+    }
+
+    if (!name.match(ENVIRONMENT_REGEX)) {
+      this.error(
+        `The environment name "${name}" is invalid, ` +
+        'it can only contain lowercase letters, numbers and hyphens',
+      );
+      return;
+    }
+    if (await this.getEnvironment(name, true)) {
+      this.error(`The environment "${name}" already exists`);
+      return;
+    }
+
+    const authenticated = await this.authenticate();
+    if (!authenticated) {
+      return;
+    }
+
+    // Project aliases are lowercase, everything else is treated as an ID
+    const result = projectIdentifier.match(PROJECT_ALIAS_REGEX) ?
+      await this.getClient().fetch(GET_PROJECT_BY_ALIAS_QUERY, {alias: projectIdentifier}) :
+      await this.getClient().fetch(GET_PROJECT_BY_ID_QUERY, {id: projectIdentifier});
+    if (result.errors && result.errors.length) {
+      this.error(`Error loading project: ${result.errors[0].message}`);
+      return;
+    }
+    const project = _.get(result, 'data.project');
+    if (!project) {
+      this.error(
+        `The project "${projectIdentifier}" does not exist or you don't have enough permissions.`,
+      );
+      return;
+    }
+
+    await this.updateEnvironment(name, {
+      endpoint: project.endpoint,
+      version: _.get(project, 'version.id', null),
+      alias: project.alias,
+      name: project.name,
+      id: project.id,
+      ...this.getEnvironmentProfileConfig(),
+    });
+
+    this.log(chalk.green(`Environment "${name}" was added for project ${project.alias}`));
+    this.log(
+      `\n  Run ${chalk.bold(`slicknode pull --env ${name}`)} to load the source of the project\n`,
+    );
+  }
+}
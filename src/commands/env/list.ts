@@ -0,0 +1,44 @@
+import chalk from 'chalk';
+import {BaseCommand} from '../../base/base-command';
+
+export default class EnvListCommand extends BaseCommand {
+  public static command = 'env list';
+  public static description = 'List the configured environments of the project';
+
+  public static examples = [
+    `$ slicknode env:list
+`,
+  ];
+
+  public static flags = {
+    ...BaseCommand.flags,
+  };
+
+  public async run() {
+    this.parse(EnvListCommand);
+    const envMap = await this.getEnvironments();
+    if (!envMap) {
+      return;
+    }
+
+    const names = Object.keys(envMap);
+    if (!names.length) {
+      this.log('There are no environments configured');
+      return;
+    }
+
+    const defaultName = await this.getEnvironmentName();
+    names.forEach((name) => {
+      const env = envMap[name];
+      this.log(
+        chalk.bold(name) + (name === defaultName ? chalk.green(' (default)') : ''),
+      );
+      this.log(`  Alias:    ${env.alias}`);
+      this.log(`  Endpoint: ${env.endpoint}`);
+      this.log(`  Version:  ${env.version || '-'}`);
+      if (env.profile) {
+        this.log(`  Profile:  ${env.profile}`);
+      }
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import chalk from 'chalk';
+import {BaseCommand} from '../../base/base-command';
+
+export default class EnvRemoveCommand extends BaseCommand {
+  public static command = 'env remove';
+  public static description = 'Remove an environment from the project configuration ' +
+    'without deleting the project on the Slicknode servers';
+
+  public static examples = [
+    `$ slicknode env:remove staging
+`,
+  ];
+
+  public static args = [
+    {
+      name: 'name',
+      description: 'The name of the environment',
+      required: true,
+    },
+  ];
+
+  public static flags = {
+    ...BaseCommand.flags,
+  };
+
+  public async run() {
+    const input = this.parse(EnvRemoveCommand);
+    const env = await this.getEnvironment(input.args.name);
+    if (!env) {
+      this.error(`The environment "${input.args.name}" does not exist`);
+      return;
+    }
+
+    await this.updateEnvironment(input.args.name, null);
+
+    this.log(chalk.green(`Environment "${input.args.name}" was removed`));
+    this.log(
+      `\n  The project ${env.alias} still exists on the Slicknode servers, run ` +
+      chalk.bold('slicknode delete') + ' to delete it\n',
+    );
+  }
+}
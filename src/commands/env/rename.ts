@@ -0,0 +1,56 @@
+import chalk from 'chalk';
+import {BaseCommand} from '../../base/base-command';
+import {ENVIRONMENT_REGEX} from '../../validation/constants';
+
+export default class EnvRenameCommand extends BaseCommand {
+  public static command = 'env rename';
+  public static description = 'Rename an environment of the project';
+
+  public static examples = [
+    `$ slicknode env:rename stage staging
+`,
+  ];
+
+  public static args = [
+    {
+      name: 'name',
+      description: 'The current name of the environment',
+      required: true,
+    },
+    {
+      name: 'newName',
+      description: 'The new name of the environment',
+      required: true,
+    },
+  ];
+
+  public static flags = {
+    ...BaseCommand.flags,
+  };
+
+  public async run() {
+    const input = this.parse(EnvRenameCommand);
+    const {name, newName} = input.args;
+    const env = await this.getEnvironment(name);
+    if (!env) {
+      this.error(`The environment "${name}" does not exist`);
+      return;
+    }
+    if (!newName.match(ENVIRONMENT_REGEX)) {
+      this.error(
+        `The environment name "${newName}" is invalid, ` +
+        'it can only contain lowercase letters, numbers and hyphens',
+      );
+      return;
+    }
+    if (await this.getEnvironment(newName, true)) {
+      this.error(`The environment "${newName}" already exists`);
+      return;
+    }
+
+    await this.updateEnvironment(newName, env);
+    await this.updateEnvironment(name, null);
+
+    this.log(chalk.green(`Environment "${name}" was renamed to "${newName}"`));
+  }
+}
@@ -0,0 +1,47 @@
+import chalk from 'chalk';
+import {BaseCommand} from '../../base/base-command';
+
+export default class EnvUseCommand extends BaseCommand {
+  public static command = 'env use';
+  public static description = 'Set the environment that is used when no environment is specified';
+
+  public static examples = [
+    `$ slicknode env:use staging
+`,
+  ];
+
+  public static args = [
+    {
+      name: 'name',
+      description: 'The name of the environment',
+      required: true,
+    },
+  ];
+
+  public static flags = {
+    ...BaseCommand.flags,
+  };
+
+  public async run() {
+    const input = this.parse(EnvUseCommand);
+    const envMap = await this.getEnvironments();
+    if (!envMap) {
+      return;
+    }
+    if (!envMap.hasOwnProperty(input.args.name)) {
+      this.error(`The environment "${input.args.name}" does not exist`);
+      return;
+    }
+
+    for (const name of Object.keys(envMap)) {
+      const {default: isDefault, ...env} = envMap[name];
+      if (name === input.args.name) {
+        await this.updateEnvironment(name, {...env, default: true});
+      } else if (isDefault) {
+        await this.updateEnvironment(name, env);
+      }
+    }
+
+    this.log(chalk.green(`Environment "${input.args.name}" is now used by default`));
+  }
+}
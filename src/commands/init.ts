@@ -4,7 +4,6 @@ import chalk from 'chalk';
 import cli from 'cli-ux';
 import fs, {mkdirpSync, readdir} from 'fs-extra';
 import _ from 'lodash';
-import fetch from 'node-fetch';
 import os from 'os';
 import path from 'path';
 import uuid from 'uuid';
@@ -62,7 +61,8 @@ export default class InitCommand extends BaseCommand {
       description: 'The alias of the project which is part of the endpoint URL',
     }),
     account: flags.string({
-      description: 'The identifier of the account where the project should be deployed',
+      description: 'The identifier of the account where the project should be deployed ' +
+        '(defaults to the defaultAccount setting)',
     }),
   };
 
@@ -94,7 +94,7 @@ export default class InitCommand extends BaseCommand {
       name = input.flags.name || null;
     }
 
-    const account = input.flags.account || null;
+    const account = input.flags.account || this.getSettings().defaultAccount || null;
 
     // Create directory if name was provided via args and directory does not exist
     let targetDir = this.getProjectRoot();
@@ -132,6 +132,7 @@ export default class InitCommand extends BaseCommand {
 
     const cluster = await getCluster({
       client: this.getClient(),
+      fetch: this.getFetch(),
     });
     if (!cluster) {
       this.error(
@@ -175,11 +176,11 @@ export default class InitCommand extends BaseCommand {
       if (!bundle) {
         this.error(
           'Project was created but could not be fully initialized, possibly because of no available capacity. ' +
-          'Try to clone the project later.',
+          `Try to clone the project later: slicknode clone ${project.alias}`,
         );
         return;
       }
-      const response = await fetch(project.version.bundle);
+      const response = await this.getFetch()(project.version.bundle);
 
       const tmpFile = path.join(os.tmpdir(), project.version.id + '.zip');
       try {
@@ -207,6 +208,7 @@ export default class InitCommand extends BaseCommand {
         alias: project.alias,
         name: project.name,
         id: project.id,
+        ...this.getEnvironmentProfileConfig(),
       }, targetDir);
 
       // Add cachefiles to gitignore
@@ -0,0 +1,25 @@
+import chalk from 'chalk';
+import {BaseCommand} from '../base/base-command';
+
+export default class LogoutCommand extends BaseCommand {
+  public static command = 'logout';
+  public static description = 'Logout from the slicknode account and remove the stored auth tokens';
+
+  public static flags = {
+    ...BaseCommand.flags,
+  };
+
+  public async run() {
+    this.parse(LogoutCommand);
+    this.getAuthStorage().clear();
+    this.log(chalk.green('Logout successful'));
+
+    const {accessToken, refreshToken} = this.getAuthTokens();
+    if (accessToken || refreshToken) {
+      this.warn(
+        'The tokens of the SLICKNODE_ACCESS_TOKEN and SLICKNODE_REFRESH_TOKEN environment variables ' +
+        'are still used for authentication',
+      );
+    }
+  }
+}
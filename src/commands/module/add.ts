@@ -1,5 +1,6 @@
 import chalk from 'chalk';
 import fs from 'fs';
+import Joi from 'joi';
 import yaml from 'js-yaml';
 import _ from 'lodash';
 import path from 'path';
@@ -10,15 +11,23 @@ import {
 import {
   PUBLIC_MODULE_NAME_REGEX,
 } from '../../validation';
+import {moduleVersion} from '../../validation/configSchemas';
 
 export default class ModuleAddCommand extends BaseCommand {
   public static description = 'Add modules as a dependency to the project';
   public static strict = false;
 
+  public static examples = [
+    `$ slicknode module:add auth image
+`,
+    `$ slicknode module:add auth@1.2.0 image@^2.0.0
+`,
+  ];
+
   public static args = [
     {
       name: '[names]',
-      description: 'The names of the modules to add',
+      description: 'The names of the modules to add, optionally with a version or semver range, e.g. auth@^1.2.0',
       required: true,
     },
   ];
@@ -34,21 +43,39 @@ export default class ModuleAddCommand extends BaseCommand {
     if (!config) {
       return;
     }
-    const names = input.argv;
-    names.forEach((name) => {
+    // Parse module names with optional version, e.g. auth@1.2.0
+    const versions: {[name: string]: string} = {};
+    const versionProvided: {[name: string]: boolean} = {};
+    input.argv.forEach((arg) => {
+      const parts = arg.split('@');
+      if (parts.length > 2) {
+        throw new Error(`Invalid module "${arg}" provided, use the format name@version`);
+      }
+      const [ name, version = 'latest' ] = parts;
       if (!name.match(PUBLIC_MODULE_NAME_REGEX)) {
         throw new Error(`Invalid module name "${name}" provided`);
       }
+      if (Joi.validate(version, moduleVersion).error) {
+        throw new Error(
+          `Invalid version "${version}" for module "${name}" provided, ` +
+          'use "latest", an exact version like "1.2.0" or a semver range like "^1.2.0"',
+        );
+      }
+      versions[name] = version;
+      versionProvided[name] = parts.length === 2;
     });
+    const names = Object.keys(versions);
 
-    // Ignore already installed modules
+    // Ignore already installed modules, unless a different version was provided
     const newModules = names
       .filter((name) => {
         const exists = config.dependencies.hasOwnProperty(name);
-        if (exists) {
+        const versionChanged = versionProvided[name] && config.dependencies[name] !== versions[name];
+        if (exists && !versionChanged) {
           this.log(chalk.yellow(`Module "${name}" is already installed`));
+          return false;
         }
-        return !exists;
+        return true;
       });
 
     // Check if modules are available
@@ -69,7 +96,7 @@ export default class ModuleAddCommand extends BaseCommand {
       dependencies: {
         ...config.dependencies,
         ...newModules.reduce((deps: {[key: string]: string}, name) => {
-          deps[name] = 'latest';
+          deps[name] = versions[name];
           return deps;
         }, {} as {[key: string]: string}),
       },
@@ -81,7 +108,11 @@ export default class ModuleAddCommand extends BaseCommand {
       }),
     );
     newModules.forEach((name) => {
-      this.log(chalk.green(`+ Module "${name}" added - version: latest`));
+      if (config.dependencies.hasOwnProperty(name)) {
+        this.log(chalk.green(`~ Module "${name}" updated - version: ${versions[name]}`));
+      } else {
+        this.log(chalk.green(`+ Module "${name}" added - version: ${versions[name]}`));
+      }
     });
     if (newModules.length) {
       this.log('\nRun `slicknode deploy` to deploy the changes to the server.\n');
@@ -20,6 +20,7 @@ import {
   NAMESPACE_REGEX,
   PUBLIC_MODULE_NAME_REGEX,
 } from '../../validation/constants';
+import {loadModuleNamespaces} from '../../validation/validateNamespaces';
 
 export default class ModuleCreateCommand extends BaseCommand {
   public static command = 'module create';
@@ -68,11 +69,23 @@ export default class ModuleCreateCommand extends BaseCommand {
       throw new Error(`An module with the name ${input.args.name} already exists in the project`);
     }
 
+    // Namespaces have to be unique across all modules of the project
+    const usedNamespaces = await loadModuleNamespaces(this.getProjectRoot(), config);
+    const getNamespaceModule = (value: string) => {
+      const existingModule = usedNamespaces.find((module) => module.namespace === value);
+      return existingModule ? existingModule.id : null;
+    };
+
     let namespace = input.flags.namespace;
+    if (namespace && getNamespaceModule(namespace)) {
+      throw new Error(
+        `The namespace ${namespace} is already used by the module ${getNamespaceModule(namespace)}`,
+      );
+    }
 
     if (!namespace) {
       let defaultNamespace: string | null = _.startCase(input.args.name.replace('-', ' ')).replace(/\s/g, '');
-      if (!defaultNamespace!.match(NAMESPACE_REGEX)) {
+      if (!defaultNamespace!.match(NAMESPACE_REGEX) || getNamespaceModule(defaultNamespace!)) {
         defaultNamespace = null;
       }
       const values = await inquirer.prompt([
@@ -85,6 +98,10 @@ export default class ModuleCreateCommand extends BaseCommand {
               return 'Please enter a valid namespace. It needs to start with an uppercase ' +
                 'letter and can only contain alpha numeric characters';
             }
+            const existingModule = getNamespaceModule(_.trim(value));
+            if (existingModule) {
+              return `The namespace is already used by the module ${existingModule}, please enter a unique namespace`;
+            }
             return true;
           },
           filter: (value) => _.trim(value),
@@ -114,8 +131,6 @@ export default class ModuleCreateCommand extends BaseCommand {
     }
 
     try {
-      // @TODO: Check of unique namespace
-
       // Create modules dir
       const moduleDir = path.join(this.getDefaultModulesDir(), input.args.name);
       mkdirpSync(moduleDir);
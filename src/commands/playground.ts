@@ -21,7 +21,7 @@ export default class PlaygroundCommand extends EnvCommand {
     const input = this.parse(PlaygroundCommand);
 
     const environment = await this.getEnvironment(
-      input.flags.env || 'default',
+      await this.getEnvironmentName(input.flags.env),
     );
     if (!environment) {
       this.error(chalk.red(
@@ -0,0 +1,40 @@
+import chalk from 'chalk';
+import fs from 'fs';
+import path from 'path';
+import {BaseCommand} from '../../base/base-command';
+import {DEFAULT_API_ENDPOINT, DEFAULT_PROFILE_NAME} from '../../config';
+
+export default class ProfileListCommand extends BaseCommand {
+  public static command = 'profile list';
+  public static description = 'List the auth profiles';
+
+  public static examples = [
+    `$ slicknode profile:list
+`,
+  ];
+
+  public static flags = {
+    ...BaseCommand.flags,
+  };
+
+  public async run() {
+    this.parse(ProfileListCommand);
+
+    const profilesDir = path.dirname(this.getProfileDir(DEFAULT_PROFILE_NAME));
+    const profiles = fs.existsSync(profilesDir) ?
+      fs.readdirSync(profilesDir).filter((name) => name !== DEFAULT_PROFILE_NAME).sort() :
+      [];
+    const currentProfile = this.getProfileName() || DEFAULT_PROFILE_NAME;
+    const globalEndpoint = this.getConfigStorage().getItem('endpoint') || DEFAULT_API_ENDPOINT;
+
+    [ DEFAULT_PROFILE_NAME, ...profiles ].forEach((name) => {
+      const endpoint = name === DEFAULT_PROFILE_NAME ?
+        globalEndpoint :
+        this.getProfileConfigStorage(name).getItem('endpoint') || globalEndpoint;
+      this.log(
+        chalk.bold(name) + (name === currentProfile ? chalk.green(' (current)') : '') +
+        `  ${endpoint}`,
+      );
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import {flags} from '@oclif/command';
+import chalk from 'chalk';
+import {mkdirpSync} from 'fs-extra';
+import {BaseCommand} from '../../base/base-command';
+import {DEFAULT_PROFILE_NAME} from '../../config';
+import {PROFILE_NAME_REGEX} from '../../validation/constants';
+
+export default class ProfileUseCommand extends BaseCommand {
+  public static command = 'profile use';
+  public static description = 'Set the auth profile that is used when no profile is specified';
+
+  public static examples = [
+    `$ slicknode profile:use my-client
+`,
+    `$ slicknode profile:use my-client --endpoint https://api.my-client.com/
+`,
+  ];
+
+  public static args = [
+    {
+      name: 'name',
+      description: 'The name of the profile, a new profile is created if it does not exist',
+      required: true,
+    },
+  ];
+
+  public static flags = {
+    ...BaseCommand.flags,
+    endpoint: flags.string({
+      description: 'The Slicknode API endpoint to use for the profile',
+    }),
+  };
+
+  public async run() {
+    const input = this.parse(ProfileUseCommand);
+    const name = input.args.name;
+    if (!name.match(PROFILE_NAME_REGEX)) {
+      this.error(`The profile name "${name}" is invalid, it can only contain lowercase letters, numbers and hyphens`);
+      return;
+    }
+
+    const configStorage = this.getConfigStorage();
+    if (name === DEFAULT_PROFILE_NAME) {
+      configStorage.removeItem('profile');
+    } else {
+      mkdirpSync(this.getProfileDir(name));
+      configStorage.setItem('profile', name);
+    }
+    if (input.flags.endpoint) {
+      this.getProfileConfigStorage(name === DEFAULT_PROFILE_NAME ? null : name)
+        .setItem('endpoint', input.flags.endpoint);
+    }
+
+    this.log(chalk.green(`Profile "${name}" is now used by default`));
+    this.log(`\n  Run ${chalk.bold('slicknode whoami')} to check the login status of the profile\n`);
+  }
+}
@@ -0,0 +1,249 @@
+import {flags} from '@oclif/command';
+import AdmZip from 'adm-zip';
+import chalk from 'chalk';
+import cli from 'cli-ux';
+import inquirer from 'inquirer';
+import _ from 'lodash';
+import {Response} from 'slicknode-client';
+import {BaseCommand} from '../base/base-command';
+import {IEnvironmentConfig} from '../types';
+import {
+  confirmDeployment,
+  getMigrationChanges,
+  getMigrationErrors,
+  IMigrateProjectResult,
+  migrateProject,
+  printChanges,
+  printErrors,
+} from '../utils/migration';
+import {LOAD_PROJECT_BUNDLE_QUERY} from './pull';
+import {summarizeChanges} from './versions';
+
+export default class PromoteCommand extends BaseCommand {
+  public static command = 'promote';
+  public static description = 'Deploy the current version of one environment to another environment';
+
+  public static examples = [
+    `$ slicknode promote staging production
+`,
+  ];
+
+  public static args = [
+    {
+      name: 'from',
+      description: 'The environment with the version to promote',
+      required: true,
+    },
+    {
+      name: 'to',
+      description: 'The environment where the version is deployed',
+      required: true,
+    },
+  ];
+
+  public static flags = {
+    ...BaseCommand.flags,
+    'force': flags.boolean({
+      char: 'f',
+      description: 'Promote the version without asking for confirmation, breaking changes still need to be ' +
+        'confirmed or allowed with --allow-breaking',
+    }),
+    'allow-breaking': flags.boolean({
+      description: 'Apply breaking changes without asking for confirmation, e.g. in CI',
+      default: false,
+    }),
+  };
+
+  public async run() {
+    const input = this.parse(PromoteCommand);
+    const {from, to} = input.args;
+    if (from === to) {
+      this.error('The source and the target environment have to be different');
+      return;
+    }
+    const fromEnv = await this.getEnvironment(from);
+    if (!fromEnv) {
+      this.error(`The environment "${from}" does not exist`);
+      return;
+    }
+    const toEnv = await this.getEnvironment(to);
+    if (!toEnv) {
+      this.error(`The environment "${to}" does not exist`);
+      return;
+    }
+
+    // Check for version updates
+    if (await this.updateRequired()) {
+      return;
+    }
+
+    const authenticated = await this.authenticate();
+    if (!authenticated) {
+      return;
+    }
+
+    // Load the bundle of the current version of the source environment
+    cli.action.start(`Loading current version of environment "${from}"`);
+    const result = await this.getClient().fetch(LOAD_PROJECT_BUNDLE_QUERY, {
+      id: fromEnv.id,
+    });
+    if (result.errors && result.errors.length) {
+      this.error(`Error loading version: ${result.errors[0].message}`);
+      return;
+    }
+    const version = _.get(result, 'data.project.version');
+    if (!version || !version.bundle) {
+      this.error(`The environment "${from}" does not have a deployed version`);
+      return;
+    }
+    const response = await this.getFetch()(version.bundle);
+    if (!response.ok) {
+      this.error(`Could not download bundle: ${response.statusText}`);
+      return;
+    }
+    const bundle = await response.buffer();
+    cli.action.stop();
+
+    if (!(await this.checkTargetVersion(to, toEnv, !input.flags.force && this.isInteractive()))) {
+      this.log('Promotion aborted');
+      return;
+    }
+
+    // Show the changes in the target environment, the zip cannot be reused after the upload
+    cli.action.start(`Comparing version with environment "${to}"`);
+    const dryRunResult = await migrateProject({
+      client: this.getClient(),
+      env: toEnv,
+      bundle: new AdmZip(bundle),
+      dryRun: true,
+    });
+    cli.action.stop();
+    if (dryRunResult.data === null || _.get(dryRunResult, 'errors[0].message')) {
+      this.error(`Error loading state from API: ${_.get(dryRunResult, 'errors[0].message')}`);
+      return;
+    }
+    if (!this.checkServerErrors(dryRunResult)) {
+      return;
+    }
+
+    const changes = getMigrationChanges(dryRunResult);
+    this.log(`Promoting version ${chalk.bold(version.id)} from "${from}" to "${to}"`);
+    printChanges(changes, (message) => this.log(message));
+
+    let confirmed;
+    try {
+      confirmed = await confirmDeployment(changes, {
+        interactive: this.isInteractive(),
+        force: input.flags.force,
+        allowBreaking: input.flags['allow-breaking'],
+      });
+    } catch (e) {
+      this.error(chalk.red(e.message));
+      return;
+    }
+    if (!confirmed) {
+      this.log('Promotion aborted');
+      return;
+    }
+
+    cli.action.start(`Deploying version to environment "${to}"`);
+    const migrateResult = await migrateProject({
+      client: this.getClient(),
+      env: toEnv,
+      bundle: new AdmZip(bundle),
+      dryRun: false,
+    });
+    cli.action.stop();
+    if (!this.checkServerErrors(migrateResult)) {
+      return;
+    }
+
+    const project = _.get(migrateResult, 'data.migrateProject.node');
+    if (!project || !project.version) {
+      this.log(
+        chalk.red('The version was not deployed. Try again later.'),
+      );
+      _.get(migrateResult, 'errors', []).forEach((error: {message: string}) => {
+        this.log(
+          chalk.red(`Error: ${error.message}`),
+        );
+      });
+      return;
+    }
+
+    // Update environment with the deployed version, the local source files stay untouched
+    await this.updateEnvironment(to, {
+      ...toEnv,
+      version: project.version.id,
+    });
+
+    this.log(
+      'Changes deployed to the slicknode servers: \n' +
+      summarizeChanges(getMigrationChanges(migrateResult)),
+    );
+    this.log(chalk.green(`Version was successfully promoted to environment "${to}"!`));
+  }
+
+  /**
+   * Warns if the target environment was deployed since the last pull, the promotion
+   * replaces that version. In interactive mode the user can abort the promotion
+   *
+   * Returns TRUE if the promotion should be continued
+   *
+   * @param envName
+   * @param env
+   * @param interactive
+   */
+  protected async checkTargetVersion(
+    envName: string,
+    env: IEnvironmentConfig,
+    interactive: boolean,
+  ): Promise<boolean> {
+    let result;
+    try {
+      result = await this.getClient().fetch(LOAD_PROJECT_BUNDLE_QUERY, {id: env.id});
+    } catch (e) {
+      result = {data: null, errors: [ e ]};
+    }
+    const version = _.get(result, 'data.project.version');
+    if (!version || !version.id) {
+      this.warn(`Could not check the deployed version of the project: ${_.get(result, 'errors[0].message', '')}`);
+      return true;
+    }
+    if (version.id === env.version) {
+      return true;
+    }
+
+    this.warn(
+      `The environment "${envName}" was deployed by someone else since your last pull. ` +
+      'The promotion replaces the deployed version.',
+    );
+    if (!interactive) {
+      return true;
+    }
+
+    const values = await inquirer.prompt([
+      {
+        name: 'confirm',
+        type: 'confirm',
+        message: 'Do you want to continue?',
+        default: false,
+      },
+    ]) as {confirm: boolean};
+    return values.confirm;
+  }
+
+  /**
+   * Prints the errors of the migration, returns TRUE if the migration has no errors
+   *
+   * @param result
+   */
+  protected checkServerErrors(result: Response<IMigrateProjectResult>): boolean {
+    const serverErrors = getMigrationErrors(result);
+    if (serverErrors.length) {
+      printErrors(serverErrors, (message) => this.log(message));
+      return false;
+    }
+    return true;
+  }
+}
@@ -1,3 +1,4 @@
+import {flags} from '@oclif/command';
 import chalk from 'chalk';
 import _ from 'lodash';
 import {EnvCommand} from '../base/env-command';
@@ -21,12 +22,15 @@ export default class PullCommand extends EnvCommand {
 
   public static flags = {
     ...EnvCommand.flags,
+    'frozen-lockfile': flags.boolean({
+      description: 'Fail if the slicknode.lock file does not match the slicknode.yml instead of updating it',
+    }),
   };
 
   public async run() {
     // Check if directory is initialized
     const config = await this.getConfig();
-    const input = this.parse(EnvCommand);
+    const input = this.parse(PullCommand);
     if (!config) {
       return;
     }
@@ -45,13 +49,16 @@ export default class PullCommand extends EnvCommand {
     const client = this.getClient();
 
     // Load project version
-    const env = await this.getEnvironment(input.flags.env || 'default', true);
+    const envName = await this.getEnvironmentName(input.flags.env);
+    const env = await this.getEnvironment(envName, true);
     if (!env) {
       // Update non private modules from registry
       await pullDependencies({
         config,
         client,
         dir: projectRoot,
+        fetch: this.getFetch(),
+        frozenLockfile: input.flags['frozen-lockfile'],
       });
       this.log(chalk.green('Local source was successfully updated'));
       return;
@@ -76,7 +83,16 @@ export default class PullCommand extends EnvCommand {
 
     // Load the source from the servers
     try {
-      await loadProjectVersion(projectRoot, bundle);
+      await loadProjectVersion(projectRoot, bundle, this.getFetch());
+
+      // Remember the pulled version to detect deployments of other users
+      const versionId = _.get(result, 'data.project.version.id');
+      if (versionId && versionId !== env.version) {
+        await this.updateEnvironment(envName, {
+          ...env,
+          version: versionId,
+        });
+      }
     } catch (e) {
       this.error(`Updating private modules failed: ${e.message}`, {exit: false});
     }
@@ -86,6 +102,8 @@ export default class PullCommand extends EnvCommand {
       config,
       client,
       dir: projectRoot,
+      fetch: this.getFetch(),
+      frozenLockfile: input.flags['frozen-lockfile'],
     });
 
     this.log(chalk.green('Local source was successfully updated'));
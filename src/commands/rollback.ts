@@ -0,0 +1,108 @@
+import {flags} from '@oclif/command';
+import chalk from 'chalk';
+import cli from 'cli-ux';
+import inquirer from 'inquirer';
+import _ from 'lodash';
+import {EnvCommand} from '../base/env-command';
+import {loadProjectVersion} from '../utils';
+import DeployCommand from './deploy';
+import {GET_PROJECT_VERSION_QUERY} from './versions/show';
+
+export default class RollbackCommand extends EnvCommand {
+  public static command = 'rollback';
+  public static description = 'Restore the source files of a deployed version and deploy them';
+
+  public static args = [
+    {
+      name: 'id',
+      description: 'The ID of the version, run "slicknode versions" to list the versions',
+      required: true,
+    },
+  ];
+
+  public static flags = {
+    ...EnvCommand.flags,
+    force: flags.boolean({
+      char: 'f',
+      description: 'Restore and deploy the version without asking for confirmation',
+    }),
+  };
+
+  public async run() {
+    const input = this.parse(RollbackCommand);
+    const config = await this.getConfig();
+    if (!config) {
+      return;
+    }
+
+    // Check for version updates
+    if (await this.updateRequired()) {
+      return;
+    }
+
+    const authenticated = await this.authenticate();
+    if (!authenticated) {
+      return;
+    }
+
+    const envName = await this.getEnvironmentName(input.flags.env);
+    const env = await this.getEnvironment(envName);
+    if (!env) {
+      this.error(chalk.red(
+        `Environment "${envName}" is not configured. ` +
+        'Run this command from your project folder with an initialized project.',
+      ));
+      return;
+    }
+
+    const result = await this.getClient().fetch(GET_PROJECT_VERSION_QUERY, {
+      id: input.args.id,
+    });
+    if (result.errors && result.errors.length) {
+      this.error(`Error loading version: ${result.errors[0].message}`);
+      return;
+    }
+    const bundle = _.get(result, 'data.version.bundle');
+    if (!bundle) {
+      this.error(`The version "${input.args.id}" does not exist or you don't have enough permissions.`);
+      return;
+    }
+    if (_.get(result, 'data.version.project.id') !== env.id) {
+      this.error(`The version "${input.args.id}" is not a version of the project in environment "${envName}".`);
+      return;
+    }
+
+    if (!input.flags.force) {
+      const values = await inquirer.prompt([
+        {
+          name: 'confirm',
+          type: 'confirm',
+          message: `The local source files will be overwritten with version ${input.args.id}. Do you want to continue?`,
+          default: false,
+        },
+      ]) as {confirm: boolean};
+      if (!values.confirm) {
+        this.log('Rollback aborted');
+        return;
+      }
+    }
+
+    // Restore source files of the version in the working copy
+    cli.action.start('Restoring source files');
+    try {
+      await loadProjectVersion(this.getProjectRoot(), bundle, this.getFetch(), true);
+    } catch (e) {
+      this.error(`Restoring source files failed: ${e.message}`);
+      return;
+    }
+    cli.action.stop();
+
+    // Run the regular deployment with the restored files
+    await DeployCommand.run([
+      '--dir', this.getProjectRoot(),
+      ...(input.flags.env ? [ '--env', input.flags.env ] : []),
+      ...(input.flags.force ? [ '--force' ] : []),
+      ...(input.flags.token ? [ '--token', input.flags.token ] : []),
+    ], this.config);
+  }
+}
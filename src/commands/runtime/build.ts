@@ -31,7 +31,7 @@ export class RuntimeBuildCommand extends EnvCommand {
   public async run() {
     const input = this.parse(RuntimeBuildCommand);
     const buildDir = path.resolve(input.args.output);
-    const env = await this.getEnvironment();
+    const env = await this.getEnvironment(await this.getEnvironmentName(input.flags.env), true);
 
     // Prevent deletion of parent folder
     if (this.getProjectRoot().startsWith(buildDir)) {
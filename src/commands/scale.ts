@@ -42,7 +42,7 @@ export default class ScaleCommand extends EnvCommand {
     }
 
     // Check if we have environment already
-    const env = await this.getEnvironment(input.flags.env || 'default');
+    const env = await this.getEnvironment(await this.getEnvironmentName(input.flags.env));
     if (!env) {
       this.error(
         'The project is not yet deployed to the servers for the environment. ' +
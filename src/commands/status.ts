@@ -5,20 +5,46 @@
  */
 
 import {flags} from '@oclif/command';
+import AdmZip from 'adm-zip';
 import chalk from 'chalk';
 import cli from 'cli-ux';
+import fs from 'fs';
+import inquirer from 'inquirer';
+import yaml from 'js-yaml';
 import _ from 'lodash';
-import {Uploadable} from 'slicknode-client';
+import path from 'path';
 import {BaseCommand} from '../base/base-command';
 import {
   IEnvironmentConfig,
-  IProjectChange,
-  IProjectChangeError,
+  IMigrationPlan,
+  IProjectConfig,
 } from '../types';
 import {
+  diffSchemas,
+  getBundleChecksum,
+  loadProjectVersion,
   packProject,
 } from '../utils';
+import {
+  getMigrationChanges,
+  getMigrationErrors,
+  MIGRATE_PROJECT_MUTATION,
+  migrateProject,
+  printChanges,
+  printErrors,
+} from '../utils/migration';
+import {pullDependencies} from '../utils/pullDependencies';
 import validate from '../validation/validate';
+import {buildProjectSchema} from '../validation/validateSchema';
+import {LOAD_PROJECT_BUNDLE_QUERY} from './pull';
+
+export interface IProjectStatus {
+  // The pending changes of the dry run
+  plan: IMigrationPlan;
+
+  // The project bundle the changes were determined for
+  bundle: AdmZip;
+}
 
 export default class StatusCommand extends BaseCommand {
   public static command = 'status';
@@ -30,6 +56,14 @@ export default class StatusCommand extends BaseCommand {
       char: 'e',
       description: 'The configured environment name',
     }),
+    offline: flags.boolean({
+      description: 'Compare the local changes with the last deployed version in the cache, without connecting to the API',
+      default: false,
+    }),
+    out: flags.string({
+      char: 'o',
+      description: 'Write the pending changes to a plan file that can be deployed with "slicknode deploy --plan"',
+    }),
   };
 
   public async run() {
@@ -43,14 +77,18 @@ export default class StatusCommand extends BaseCommand {
 
     if (errors.length) {
       this.error(chalk.red('Project configuration has errors: \n'), {exit: false});
-      errors.forEach((error, index) => {
-        this.error(chalk.red(`  ${index + 1}. ${error.toString()}\n`), {exit: false});
-      });
+      this.printValidationErrors(errors);
       this.error('Abort');
     }
 
+    if (input.flags.offline) {
+      await this.printOfflineStatus(config);
+      return;
+    }
+
     // Check if we have environment already
-    const env = await this.getEnvironment(input.flags.env || 'default');
+    const envName = await this.getEnvironmentName(input.flags.env);
+    let env = await this.getEnvironment(envName);
     if (!env) {
       this.log(
         'No errors found but project is not deployed in this environment. ' +
@@ -70,8 +108,17 @@ export default class StatusCommand extends BaseCommand {
       return;
     }
 
-    const statusValid = await this.loadAndPrintStatus(env);
-    if (!statusValid) {
+    env = (await this.checkDeployedVersion(envName, env, this.isInteractive())).env;
+
+    const status = await this.loadAndPrintStatus(env);
+    if (!status) {
+      return;
+    }
+
+    if (input.flags.out) {
+      fs.writeFileSync(path.resolve(input.flags.out), JSON.stringify(status.plan, null, 2));
+      this.log(`  Migration plan was written to ${input.flags.out}`);
+      this.log(`  Run ${chalk.bold(`slicknode deploy --plan ${input.flags.out}`)} to deploy the planned changes\n`);
       return;
     }
 
@@ -80,124 +127,151 @@ export default class StatusCommand extends BaseCommand {
 
   /**
    * Loads and prints the status
-   * Returns true if project has a valid status and no errors
+   * Returns the migration plan with the pending changes and the bundle that was checked
+   * if project has a valid status and no errors, NULL otherwise
    *
    * @param env
-   * @returns {Promise.<boolean>}
+   * @returns {Promise.<IProjectStatus | null>}
    */
-  public async loadAndPrintStatus(env: IEnvironmentConfig): Promise<boolean> {
+  public async loadAndPrintStatus(env: IEnvironmentConfig): Promise<IProjectStatus | null> {
     // Run dummy migration
     cli.action.start('Comparing local changes with cluster state');
-    const result = await this.migrateProject(true, env);
+    const zip = await packProject(this.getProjectRoot());
+
+    // The entries of the zip are empty after it was uploaded, so the dry run gets its own copy
+    // and the bundle can still be deployed afterwards
+    const checksum = getBundleChecksum(zip);
+    const buffer = zip.toBuffer();
+    const result = await migrateProject({
+      client: this.getClient(),
+      env,
+      bundle: new AdmZip(buffer),
+      dryRun: true,
+    });
     cli.action.stop();
 
     if (result.data === null || _.get(result, 'errors[0].message')) {
       this.error(`Error loading state from API: ${_.get(result, 'errors[0].message')}`);
     }
 
-    const serverErrors = _.get(result, 'data.migrateProject.errors', []).filter(
-      (e: IProjectChangeError | null) => e,
-    );
+    const serverErrors = getMigrationErrors(result);
     if (serverErrors.length) {
-      this.printErrors(serverErrors);
-      return false;
+      printErrors(serverErrors, (message) => this.log(message));
+      return null;
     }
 
-    this.printChanges(_.get(result, 'data.migrateProject.changes', []).filter(
-      (e: IProjectChangeError | null) => e,
-    ));
-    return true;
+    const changes = getMigrationChanges(result);
+    printChanges(changes, (message) => this.log(message));
+    return {
+      plan: {
+        changes,
+        checksum,
+        baseVersion: _.get(result, 'data.migrateProject.node.version.id', env.version || null),
+      },
+      bundle: new AdmZip(buffer),
+    };
   }
 
-  public printErrors(errors: IProjectChangeError[]) {
-    if (errors.length) {
-      this.log(chalk.red(`\nThe project has ${errors.length} error${errors.length === 1 ? '' : 's'}:`));
-      errors.forEach((error, index) => {
-        this.log('  ' + chalk.red(`${index + 1}. ${error.description}`));
-      });
-      this.log('');
+  /**
+   * Compares the schema of the working copy with the schema of the last deployed version
+   * in the local cache and prints the changes
+   *
+   * @param config
+   */
+  public async printOfflineStatus(config: IProjectConfig) {
+    const projectRoot = this.getProjectRoot();
+    let cachedConfig;
+    try {
+      cachedConfig = yaml.safeLoad(
+        fs.readFileSync(path.join(projectRoot, '.slicknode', 'cache', 'slicknode.yml'), 'utf8'),
+      ) as IProjectConfig;
+    } catch (e) {
+      this.error(
+        'The last deployed version of the project was not found in the local cache. ' +
+        `Run ${chalk.bold('slicknode pull')} to load the deployed version`,
+      );
+      return;
     }
-  }
 
-  public printChanges(changes: IProjectChange[]) {
-    if (changes.length) {
-      const sortedChanges = _.sortBy(changes, (change) => change.type + ':' + (change.path || []).join('.'));
-
-      this.log(`${changes.length} pending change${changes.length === 1 ? '' : 's'}:`);
-      sortedChanges.forEach((change, index) => {
-        switch (change.type) {
-          case 'ADD': {
-            this.log('  ' + chalk.green(`add:    ${change.description}`));
-            break;
-          }
-          case 'REMOVE': {
-            this.log('  ' + chalk.red(`remove:  ${change.description}`));
-            break;
-          }
-          case 'UPDATE': {
-            this.log('  ' + chalk.yellow(`update:  ${change.description}`));
-            break;
-          }
-          default: {
-            this.log('  ' + `${index + 1}. ${change.description}`);
-            break;
-          }
-        }
-      });
-    } else {
-      this.log('No changes detected in project.');
-    }
+    const changes = diffSchemas(
+      await buildProjectSchema(projectRoot, cachedConfig, true),
+      await buildProjectSchema(projectRoot, config),
+    );
+    printChanges(changes, (message) => this.log(message));
   }
 
-  public async migrateProject(dryRun: boolean, env: IEnvironmentConfig): Promise<any> {
-
-    // Run server side validation and get status
-    const zip = await packProject(this.getProjectRoot());
+  /**
+   * Compares the deployed version on the server with the version of the last pull / deployment
+   * and warns if someone else has deployed in the meantime. In interactive mode, the user
+   * can pull the latest version, which overwrites the local source files
+   *
+   * Returns the updated environment config and whether the latest version was pulled
+   *
+   * @param envName
+   * @param env
+   * @param interactive
+   */
+  public async checkDeployedVersion(
+    envName: string,
+    env: IEnvironmentConfig,
+    interactive: boolean,
+  ): Promise<{env: IEnvironmentConfig, pulled: boolean}> {
+    let result;
+    try {
+      result = await this.getClient().fetch(LOAD_PROJECT_BUNDLE_QUERY, {id: env.id});
+    } catch (e) {
+      result = {data: null, errors: [ e ]};
+    }
+    const version = _.get(result, 'data.project.version');
+    if (!version || !version.id) {
+      this.warn(`Could not check the deployed version of the project: ${_.get(result, 'errors[0].message', '')}`);
+      return {env, pulled: false};
+    }
+    if (version.id === env.version) {
+      return {env, pulled: false};
+    }
 
-    // Convert zip to buffer
-    const file = await new Promise((resolve, reject) => {
-      zip.toBuffer(resolve, reject);
-    }) as Uploadable;
+    this.warn(
+      `The environment "${envName}" was deployed by someone else since your last pull. ` +
+      'The deployment overwrites the changes that are not in your local source files.',
+    );
+    if (!interactive) {
+      return {env, pulled: false};
+    }
 
-    // zip.writeZip(target);
-    return await this.getClient().fetch(MIGRATE_PROJECT_MUTATION,
-      {
-        input: {
-          id: env.id,
-          dryRun,
-        },
-      },
-      null,
+    const values = await inquirer.prompt([
       {
-        file,
+        name: 'pull',
+        type: 'confirm',
+        message: 'Do you want to pull the latest changes from the server? ' +
+          'This overwrites your local source files, changes that were not deployed are lost.',
+        default: false,
       },
-    );
-  }
-}
+    ]) as {pull: boolean};
+    if (!values.pull) {
+      return {env, pulled: false};
+    }
 
-export const MIGRATE_PROJECT_MUTATION = `mutation MigrateProjectMutation(
-  $input: migrateProjectInput!
-) {
-  migrateProject(input: $input) {
-    node {
-      id
-      name
-      alias
-      version {
-        id
-        bundle
-      }
-    }
-    errors {
-      description
-      path
-      module
-    }
-    changes {
-      description
-      path
-      module
-      type
+    cli.action.start('Pulling latest changes');
+    await loadProjectVersion(this.getProjectRoot(), version.bundle, this.getFetch());
+    const config = await this.getConfig();
+    if (config) {
+      await pullDependencies({
+        config,
+        client: this.getClient(),
+        dir: this.getProjectRoot(),
+        fetch: this.getFetch(),
+      });
     }
+    const updatedEnv = {
+      ...env,
+      version: version.id,
+    };
+    await this.updateEnvironment(envName, updatedEnv);
+    cli.action.stop();
+
+    return {env: updatedEnv, pulled: true};
   }
-}`;
+}
+
+export {MIGRATE_PROJECT_MUTATION};
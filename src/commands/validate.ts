@@ -0,0 +1,81 @@
+import {flags} from '@oclif/command';
+import chalk from 'chalk';
+import {BaseCommand} from '../base/base-command';
+import {isDependencyTreeLoaded} from '../utils/isDependencyTreeLoaded';
+import {formatJson, formatSarif} from '../validation/formatErrors';
+import validate from '../validation/validate';
+import ValidationError from '../validation/ValidationError';
+
+export default class ValidateCommand extends BaseCommand {
+  public static command = 'validate';
+  public static description = 'Validate the project configuration and schema locally, without connecting to the API';
+
+  public static examples = [
+    `$ slicknode validate
+`,
+    `$ slicknode validate --format sarif > slicknode.sarif
+`,
+    `$ slicknode validate --load-handlers
+`,
+  ];
+
+  public static flags = {
+    ...BaseCommand.flags,
+    'format': flags.string({
+      char: 'f',
+      description: 'The output format of the validation errors',
+      options: [ 'text', 'json', 'sarif' ],
+      default: 'text',
+    }),
+    'load-handlers': flags.boolean({
+      description: 'Load the handlers of the modules in a separate process to check that they export a function. ' +
+        'This runs the runtime code of the modules',
+      default: false,
+    }),
+  };
+
+  public async run() {
+    const input = this.parse(ValidateCommand);
+    const config = await this.getConfig();
+    if (!config) {
+      return;
+    }
+    const projectRoot = this.getProjectRoot();
+
+    // Public modules are only validated from the local cache, we don't load them from the registry
+    let errors: ValidationError[];
+    if (config.dependencies && !(await isDependencyTreeLoaded({dir: projectRoot, config}))) {
+      errors = [
+        new ValidationError(
+          'The source files of the module dependencies are not loaded. ' +
+          `Run ${chalk.bold('slicknode pull')} to load the dependencies`,
+        ),
+      ];
+    } else {
+      errors = await validate(projectRoot, config, {loadHandlers: input.flags['load-handlers']});
+    }
+
+    switch (input.flags.format) {
+      case 'json': {
+        this.log(formatJson(errors, projectRoot));
+        break;
+      }
+      case 'sarif': {
+        this.log(formatSarif(errors, projectRoot, this.config.version));
+        break;
+      }
+      default: {
+        if (errors.length) {
+          this.log(chalk.red(`Project configuration has ${errors.length} error${errors.length === 1 ? '' : 's'}: \n`));
+          this.printValidationErrors(errors);
+        } else {
+          this.log(chalk.green('No errors found in project'));
+        }
+      }
+    }
+
+    if (errors.length) {
+      this.exit(1);
+    }
+  }
+}
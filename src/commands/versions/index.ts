@@ -0,0 +1,126 @@
+import {flags} from '@oclif/command';
+import chalk from 'chalk';
+import _ from 'lodash';
+import {EnvCommand} from '../../base/env-command';
+import {IProjectChange} from '../../types';
+
+export const LIST_PROJECT_VERSIONS_QUERY = `query ListProjectVersions($id: ID!, $first: Int!) {
+  project: getProjectById(id: $id) {
+    version {
+      id
+    }
+    versions(first: $first, order: {fields: ["createdAt"], direction: DESC}) {
+      edges {
+        node {
+          id
+          createdAt
+          changes {
+            type
+            breaking
+          }
+        }
+      }
+    }
+  }
+}`;
+
+interface IProjectVersion {
+  id: string;
+  createdAt: string;
+  changes: IProjectChange[] | null;
+}
+
+/**
+ * Returns a summary of the number of changes by type
+ *
+ * @param changes
+ */
+export function summarizeChanges(changes: IProjectChange[]): string {
+  const counts = (changes || []).reduce((changeCounts, change) => {
+    const type = change.type.toLowerCase() as 'add' | 'update' | 'remove';
+    changeCounts[type] += 1;
+    if (change.breaking) {
+      changeCounts.breaking += 1;
+    }
+    return changeCounts;
+  }, {add: 0, update: 0, remove: 0, breaking: 0});
+
+  return `${counts.add} addition${counts.add === 1 ? '' : 's'}, ` +
+    `${counts.update} update${counts.update === 1 ? '' : 's'}, ` +
+    `${counts.remove} removal${counts.remove === 1 ? '' : 's'}` +
+    (counts.breaking ? ` (${counts.breaking} breaking)` : '');
+}
+
+export default class VersionsCommand extends EnvCommand {
+  public static command = 'versions';
+  public static description = 'List the deployed versions of the project environment';
+
+  public static examples = [
+    `$ slicknode versions
+`,
+    `$ slicknode versions show <id>
+`,
+  ];
+
+  public static flags = {
+    ...EnvCommand.flags,
+    limit: flags.integer({
+      char: 'l',
+      description: 'The maximum number of versions to list',
+      default: 20,
+    }),
+  };
+
+  public async run() {
+    const input = this.parse(VersionsCommand);
+    const envName = await this.getEnvironmentName(input.flags.env);
+    const env = await this.getEnvironment(envName);
+    if (!env) {
+      this.error(chalk.red(
+        `Environment "${envName}" is not configured. ` +
+        'Run this command from your project folder with an initialized project.',
+      ));
+      return;
+    }
+
+    const authenticated = await this.authenticate();
+    if (!authenticated) {
+      return;
+    }
+
+    const result = await this.getClient().fetch(LIST_PROJECT_VERSIONS_QUERY, {
+      id: env.id,
+      first: input.flags.limit,
+    });
+    if (result.errors && result.errors.length) {
+      this.error(`Error loading versions: ${result.errors[0].message}`);
+      return;
+    }
+    const project = _.get(result, 'data.project');
+    if (!project) {
+      this.error(
+        'The project does not exist on the Slicknode Servers or you don\'t have enough permissions.',
+      );
+      return;
+    }
+
+    const versions: IProjectVersion[] = _.get(project, 'versions.edges', []).map(
+      (edge: {node: IProjectVersion}) => edge.node,
+    );
+    if (!versions.length) {
+      this.log(`No versions deployed in environment "${envName}"`);
+      return;
+    }
+
+    const currentVersion = _.get(project, 'version.id');
+    this.log(`Versions of environment "${envName}":`);
+    versions.forEach((version) => {
+      const current = version.id === currentVersion ? chalk.green(' (current)') : '';
+      this.log(
+        `  ${chalk.bold(version.id)}  ${new Date(version.createdAt).toLocaleString()}  ` +
+        summarizeChanges(version.changes || []) + current,
+      );
+    });
+    this.log(`\n  Run ${chalk.bold('slicknode rollback <id>')} to restore and deploy a previous version\n`);
+  }
+}
@@ -0,0 +1,89 @@
+import {flags} from '@oclif/command';
+import chalk from 'chalk';
+import cli from 'cli-ux';
+import fs from 'fs';
+import _ from 'lodash';
+import path from 'path';
+import {BaseCommand} from '../../base/base-command';
+import {IProjectChange} from '../../types';
+import {summarizeChanges} from './index';
+
+export const GET_PROJECT_VERSION_QUERY = `query GetProjectVersion($id: ID!) {
+  version: getProjectVersionById(id: $id) {
+    id
+    createdAt
+    bundle
+    project {
+      id
+    }
+    changes {
+      type
+      breaking
+      description
+    }
+  }
+}`;
+
+export default class VersionsShowCommand extends BaseCommand {
+  public static command = 'versions show';
+  public static description = 'Show the changes of a deployed version and download its bundle';
+
+  public static args = [
+    {
+      name: 'id',
+      description: 'The ID of the version',
+      required: true,
+    },
+  ];
+
+  public static flags = {
+    ...BaseCommand.flags,
+    out: flags.string({
+      char: 'o',
+      description: 'The file where the bundle is saved, defaults to <id>.zip in the current directory',
+    }),
+  };
+
+  public async run() {
+    const input = this.parse(VersionsShowCommand);
+
+    const authenticated = await this.authenticate();
+    if (!authenticated) {
+      return;
+    }
+
+    const result = await this.getClient().fetch(GET_PROJECT_VERSION_QUERY, {
+      id: input.args.id,
+    });
+    if (result.errors && result.errors.length) {
+      this.error(`Error loading version: ${result.errors[0].message}`);
+      return;
+    }
+    const version = _.get(result, 'data.version');
+    if (!version || !version.bundle) {
+      this.error(`The version "${input.args.id}" does not exist or you don't have enough permissions.`);
+      return;
+    }
+
+    const changes: IProjectChange[] = version.changes || [];
+    this.log(`Version ${chalk.bold(version.id)}, deployed ${new Date(version.createdAt).toLocaleString()}`);
+    this.log(`  ${summarizeChanges(changes)}`);
+    changes.forEach((change) => {
+      this.log(`  ${change.type.toLowerCase()}: ${change.description}` +
+        (change.breaking ? ' ' + chalk.bold.red('[BREAKING]') : ''));
+    });
+
+    // Download bundle
+    const target = path.resolve(input.flags.out || `${version.id.replace(/[^a-zA-Z0-9_-]/g, '_')}.zip`);
+    cli.action.start('Downloading bundle');
+    const response = await this.getFetch()(version.bundle);
+    if (!response.ok) {
+      this.error(`Could not download bundle: ${response.statusText}`);
+      return;
+    }
+    fs.writeFileSync(target, await response.buffer());
+    cli.action.stop();
+
+    this.log(`\n  Bundle was saved to ${target}\n`);
+  }
+}
@@ -0,0 +1,75 @@
+import chalk from 'chalk';
+import _ from 'lodash';
+import {BaseCommand} from '../base/base-command';
+
+export const WHOAMI_QUERY = `query Whoami {
+  viewer {
+    user {
+      id
+      email
+    }
+    accounts(first: 100) {
+      edges {
+        node {
+          identifier
+          name
+        }
+      }
+    }
+  }
+}`;
+
+interface IAccount {
+  identifier: string;
+  name: string;
+}
+
+export default class WhoamiCommand extends BaseCommand {
+  public static command = 'whoami';
+  public static description = 'Show the user and the accounts that the CLI is authenticated with';
+
+  public static flags = {
+    ...BaseCommand.flags,
+  };
+
+  public async run() {
+    this.parse(WhoamiCommand);
+
+    // Only check existing tokens, whoami never asks for login credentials
+    const client = this.getClient();
+    const {accessToken} = this.getAuthTokens();
+    if (!accessToken && !client.hasAccessToken() && !client.hasRefreshToken()) {
+      this.error(`You are not logged in, run ${chalk.bold('slicknode login')} to login`, {exit: 1});
+      return;
+    }
+
+    const result = await client.fetch(WHOAMI_QUERY);
+    if (result.errors && result.errors.length) {
+      this.error(`Error loading user: ${result.errors[0].message}`, {exit: 1});
+      return;
+    }
+    const user = _.get(result, 'data.viewer.user');
+    if (!user) {
+      this.error(
+        `You are not authenticated, the auth tokens are invalid or expired. Run ${chalk.bold('slicknode login')}`,
+        {exit: 1},
+      );
+      return;
+    }
+
+    this.log(`Logged in as ${chalk.bold(user.email)}`);
+    const profile = this.getProfileName();
+    if (profile) {
+      this.log(`Profile: ${profile}`);
+    }
+    const accounts: IAccount[] = _.get(result, 'data.viewer.accounts.edges', []).map(
+      (edge: {node: IAccount}) => edge.node,
+    );
+    if (accounts.length) {
+      this.log('Accounts:');
+      accounts.forEach((account) => {
+        this.log(`  ${chalk.bold(account.identifier)}  ${account.name}`);
+      });
+    }
+  }
+}
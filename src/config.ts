@@ -3,3 +3,6 @@
  */
 
 export const DEFAULT_API_ENDPOINT = 'https://api.slicknode.com/';
+
+// Name of the profile that uses the auth tokens and settings in the root of ~/.slicknode
+export const DEFAULT_PROFILE_NAME = 'default';
@@ -8,6 +8,10 @@ export interface IEnvironmentConfig {
     alias: string;
     id: string;
     name: string;
+    // TRUE if the environment is used when no environment is specified
+    default?: boolean;
+    // The auth profile that is used for the environment
+    profile?: string;
 }
 
 export interface IEnvironmentConfigMap {[key: string]: IEnvironmentConfig; }
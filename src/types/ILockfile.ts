@@ -0,0 +1,25 @@
+export interface ILockedModule {
+  /**
+   * The version or semver range of the module in the slicknode.yml
+   */
+  requested: string;
+
+  /**
+   * The resolved version of the module that is installed
+   */
+  version: string;
+
+  /**
+   * The URL of the source archive
+   */
+  zip: string;
+
+  /**
+   * The hash of the source archive, e.g. sha512-<base64>
+   */
+  integrity: string;
+}
+
+export interface ILockfile {
+  modules: {[id: string]: ILockedModule};
+}
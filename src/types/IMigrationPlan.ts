@@ -0,0 +1,12 @@
+import {IProjectChange} from './IProjectChange';
+
+export interface IMigrationPlan {
+  // The pending changes of the dry run
+  changes: IProjectChange[];
+
+  // SHA256 checksum of the files in the project bundle
+  checksum: string;
+
+  // ID of the deployed version the changes are based on
+  baseVersion: string | null;
+}
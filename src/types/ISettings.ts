@@ -0,0 +1,21 @@
+/**
+ * The settings of the CLI that are configured with "slicknode config set"
+ */
+export interface ISettings {
+  endpoint?: string;
+  proxy?: string;
+  timeout?: number;
+  caFile?: string;
+  disableUpdateCheck?: boolean;
+  color?: boolean;
+  defaultEnv?: string;
+  defaultAccount?: string;
+}
+
+/**
+ * Config values of one source with the description of the origin, e.g. the path of the config file
+ */
+export interface IConfigLayer {
+  origin: string;
+  values: {[key: string]: any};
+}
@@ -17,3 +17,9 @@ export * from './IProjectChange';
 export * from './ICluster';
 
 export * from './IModuleConfig';
+
+export * from './IMigrationPlan';
+
+export * from './ISettings';
+
+export * from './ILockfile';
@@ -0,0 +1,36 @@
+import chalk from 'chalk';
+import _ from 'lodash';
+
+/**
+ * Returns the lines around the given position of the source with line numbers and
+ * a marker pointing to the line and column
+ *
+ * @param source
+ * @param line The line number, starting at 1
+ * @param column The column number, starting at 1
+ * @param contextLines The number of lines to display before and after the marked line
+ */
+export function codeFrame(source: string, line: number, column?: number, contextLines: number = 2): string {
+  const lines = source.split(/\r?\n/);
+  const start = Math.max(line - contextLines, 1);
+  const end = Math.min(line + contextLines, lines.length);
+  const gutterWidth = String(end).length;
+
+  const frame: string[] = [];
+  for (let current = start; current <= end; current++) {
+    const gutter = chalk.gray(`${_.padStart(String(current), gutterWidth)} |`);
+    const content = lines[current - 1];
+    if (current === line) {
+      frame.push(`${chalk.red.bold('>')} ${gutter}${content ? ' ' + content : ''}`);
+      if (column) {
+        // Keep tabs so the marker is aligned with the content
+        const padding = (content || '').substr(0, column - 1).replace(/[^\t]/g, ' ');
+        frame.push(`  ${chalk.gray(`${' '.repeat(gutterWidth)} |`)} ${padding}${chalk.red.bold('^')}`);
+      }
+    } else {
+      frame.push(`  ${gutter}${content ? ' ' + content : ''}`);
+    }
+  }
+
+  return frame.join('\n');
+}
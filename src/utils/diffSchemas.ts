@@ -0,0 +1,112 @@
+import {
+  BreakingChangeType,
+  DangerousChangeType,
+  findBreakingChanges,
+  findDangerousChanges,
+  GraphQLSchema,
+  isInterfaceType,
+  isObjectType,
+} from 'graphql';
+import {IProjectChange} from '../types';
+
+const REMOVE_CHANGE_TYPES: string[] = [
+  BreakingChangeType.TYPE_REMOVED,
+  BreakingChangeType.FIELD_REMOVED,
+  BreakingChangeType.VALUE_REMOVED_FROM_ENUM,
+  BreakingChangeType.TYPE_REMOVED_FROM_UNION,
+  BreakingChangeType.ARG_REMOVED,
+  BreakingChangeType.INTERFACE_REMOVED_FROM_OBJECT,
+  BreakingChangeType.DIRECTIVE_REMOVED,
+  BreakingChangeType.DIRECTIVE_ARG_REMOVED,
+  BreakingChangeType.DIRECTIVE_LOCATION_REMOVED,
+];
+
+const ADD_CHANGE_TYPES: string[] = [
+  BreakingChangeType.REQUIRED_ARG_ADDED,
+  BreakingChangeType.REQUIRED_INPUT_FIELD_ADDED,
+  BreakingChangeType.REQUIRED_DIRECTIVE_ARG_ADDED,
+  DangerousChangeType.VALUE_ADDED_TO_ENUM,
+  DangerousChangeType.TYPE_ADDED_TO_UNION,
+  DangerousChangeType.INTERFACE_ADDED_TO_OBJECT,
+  DangerousChangeType.OPTIONAL_INPUT_FIELD_ADDED,
+  DangerousChangeType.OPTIONAL_ARG_ADDED,
+];
+
+/**
+ * Compares two schemas and returns the changes in the same format as the API.
+ * Breaking and dangerous changes are detected by graphql-js, new types and
+ * output fields are added as non breaking changes
+ *
+ * @param oldSchema
+ * @param newSchema
+ */
+export function diffSchemas(oldSchema: GraphQLSchema, newSchema: GraphQLSchema): IProjectChange[] {
+  const changes: IProjectChange[] = [];
+
+  findBreakingChanges(oldSchema, newSchema).forEach((change) => {
+    changes.push({
+      type: getChangeType(change.type),
+      description: change.description,
+      path: [],
+      breaking: true,
+    });
+  });
+  findDangerousChanges(oldSchema, newSchema).forEach((change) => {
+    changes.push({
+      type: getChangeType(change.type),
+      description: change.description,
+      path: [],
+      breaking: false,
+    });
+  });
+
+  // Additions that are neither breaking nor dangerous
+  const oldTypeMap = oldSchema.getTypeMap();
+  const newTypeMap = newSchema.getTypeMap();
+  for (const typeName of Object.keys(newTypeMap)) {
+    const newType = newTypeMap[typeName];
+    const oldType = oldTypeMap[typeName];
+    if (typeName.startsWith('__')) {
+      continue;
+    }
+    if (!oldType) {
+      changes.push({
+        type: 'ADD',
+        description: `${typeName} was added.`,
+        path: [ 'types', typeName ],
+        breaking: false,
+      });
+      continue;
+    }
+
+    // Added input fields are covered by graphql-js
+    if (
+      (isObjectType(newType) || isInterfaceType(newType)) &&
+      (isObjectType(oldType) || isInterfaceType(oldType))
+    ) {
+      const oldFields = oldType.getFields();
+      for (const fieldName of Object.keys(newType.getFields())) {
+        if (!oldFields[fieldName]) {
+          changes.push({
+            type: 'ADD',
+            description: `${typeName}.${fieldName} was added.`,
+            path: [ 'types', typeName, 'fields', fieldName ],
+            breaking: false,
+          });
+        }
+      }
+    }
+  }
+
+  return changes;
+}
+
+function getChangeType(changeType: string): 'ADD' | 'UPDATE' | 'REMOVE' {
+  if (REMOVE_CHANGE_TYPES.includes(changeType)) {
+    return 'REMOVE';
+  }
+  if (ADD_CHANGE_TYPES.includes(changeType)) {
+    return 'ADD';
+  }
+  return 'UPDATE';
+}
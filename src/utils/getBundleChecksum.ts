@@ -0,0 +1,23 @@
+import AdmZip from 'adm-zip';
+import crypto from 'crypto';
+
+/**
+ * Returns the SHA256 checksum of the files in the bundle. The checksum only depends on the
+ * paths and contents of the files, not on the timestamps in the archive
+ *
+ * @param zip
+ */
+export function getBundleChecksum(zip: AdmZip): string {
+  const hash = crypto.createHash('sha256');
+  zip.getEntries()
+    .filter((entry) => !entry.isDirectory)
+    .sort((a, b) => a.entryName < b.entryName ? -1 : (a.entryName > b.entryName ? 1 : 0))
+    .forEach((entry) => {
+      hash.update(entry.entryName);
+      hash.update('\0');
+      hash.update(entry.getData());
+      hash.update('\0');
+    });
+
+  return hash.digest('hex');
+}
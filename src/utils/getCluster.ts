@@ -1,9 +1,8 @@
 import cli from 'cli-ux';
-import https from 'https';
 import inquirer from 'inquirer';
 import _ from 'lodash';
-import fetch from 'node-fetch';
 import Client from 'slicknode-client';
+import {Fetch} from '../api/http';
 import {ICluster} from '../types';
 
 const LIST_CLUSTER_QUERY = `query {
@@ -21,10 +20,11 @@ const LIST_CLUSTER_QUERY = `query {
 
 interface IGetClusterParams {
   client: Client;
+  fetch: Fetch;
 }
 
 export async function getCluster(params: IGetClusterParams) {
-  const {client} = params;
+  const {client, fetch} = params;
   cli.action.start('Load available clusters');
   const result = await client.fetch(LIST_CLUSTER_QUERY);
   const edges = _.get(result, 'data.listCluster.edges', []) as Array<{node: ICluster}>;
@@ -37,17 +37,13 @@ export async function getCluster(params: IGetClusterParams) {
     return null;
   }
 
-  // Use keepAlive to get more accurate latency without connection setup
-  const agent = new https.Agent({
-    keepAlive: true,
-  });
-
+  // The agents of the fetch function keep connections alive, so the latency
+  // is measured without connection setup
   // Trigger requests to setup connections
   await Promise.all(edges.map(async ({node}) => {
     try {
       await fetch(node.pingUrl, {
         timeout: 5000,
-        agent,
       });
     } catch (e) {
       // tslint-ignore
@@ -61,7 +57,6 @@ export async function getCluster(params: IGetClusterParams) {
     try {
       await fetch(node.pingUrl, {
         timeout: 5000,
-        agent,
       });
       latency = Date.now() - start;
     } catch (e) {
@@ -28,3 +28,26 @@ export {
 export {
   getModuleList,
 } from './getModuleList';
+
+export {
+  codeFrame,
+} from './codeFrame';
+
+export {
+  diffSchemas,
+} from './diffSchemas';
+
+export {
+  getBundleChecksum,
+} from './getBundleChecksum';
+
+export {
+  IRegistryModule,
+  resolveModuleVersion,
+} from './resolveModuleVersion';
+
+export {
+  LOCKFILE_NAME,
+  readLockfile,
+  writeLockfile,
+} from './lockfile';
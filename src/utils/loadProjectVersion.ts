@@ -4,18 +4,33 @@
  * @flow
  */
 import AdmZip from 'adm-zip';
+import {promisify} from 'es6-promisify';
 import fs, {mkdirpSync} from 'fs-extra';
+import originalGlob from 'glob';
 import yaml from 'js-yaml';
 import _ from 'lodash';
-import fetch from 'node-fetch';
 import os from 'os';
 import path from 'path';
 import uuid from 'uuid';
+import {Fetch} from '../api/http';
+import {MODULE_FILE_PATTERNS} from './packProject';
+
+const glob = promisify(originalGlob);
 
 /**
  * Loads the project version + files from the server and writes them to local project dir
+ *
+ * @param projectRoot
+ * @param bundle The URL of the version bundle
+ * @param fetch
+ * @param clean Remove the files of the private modules that are not in the version
  */
-async function loadProjectVersion(projectRoot: string, bundle: string): Promise<void> {
+async function loadProjectVersion(
+  projectRoot: string,
+  bundle: string,
+  fetch: Fetch,
+  clean: boolean = false,
+): Promise<void> {
   if (!bundle) {
     throw new Error('No bundle URL provided');
   }
@@ -38,6 +53,10 @@ async function loadProjectVersion(projectRoot: string, bundle: string): Promise<
   const rawConfig = zip.readAsText('slicknode.yml', 'utf8');
   const config = yaml.safeLoad(rawConfig);
 
+  if (clean) {
+    await removePrivateModuleFiles(projectRoot, config);
+  }
+
   zip.extractEntryTo('slicknode.yml', projectRoot, false, true);
   zip.getEntries()
     .forEach((entry) => {
@@ -86,4 +105,32 @@ async function loadProjectVersion(projectRoot: string, bundle: string): Promise<
   );
 }
 
+/**
+ * Removes the files of the private modules that are packed into a project bundle, other files
+ * like the runtime code are kept
+ *
+ * @param projectRoot
+ * @param config The project config of the version
+ */
+async function removePrivateModuleFiles(projectRoot: string, config: any): Promise<void> {
+  const modulePaths = Object.keys(_.get(config, 'dependencies') || {})
+    .filter((name) => name.startsWith('@private/') && String(config.dependencies[name]).startsWith('./'))
+    .map((name) => {
+      const modulePath = path.resolve(projectRoot, config.dependencies[name]);
+      const relativePath = path.relative(path.resolve(projectRoot), modulePath);
+      if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+        throw new Error(
+          `The path of module ${name} is outside of the project directory: ${config.dependencies[name]}`,
+        );
+      }
+      return modulePath;
+    });
+  for (const modulePath of modulePaths) {
+    for (const pattern of MODULE_FILE_PATTERNS) {
+      const files = await glob(path.join(modulePath, pattern)) as string[];
+      files.forEach((file) => fs.removeSync(file));
+    }
+  }
+}
+
 export default loadProjectVersion;
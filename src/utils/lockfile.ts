@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import Joi from 'joi';
+import yaml from 'js-yaml';
+import path from 'path';
+import {ILockfile, IProjectConfig} from '../types';
+import {PRIVATE_MODULE_NAME_REGEX} from '../validation';
+import {sortKeys} from './object';
+
+export const LOCKFILE_NAME = 'slicknode.lock';
+
+const LOCKFILE_HEADER = '# This file is generated by the Slicknode CLI, do not edit it manually.\n' +
+  '# Commit it to version control to install the same module versions everywhere.\n\n';
+
+const lockfileSchema = Joi.object().keys({
+  modules: Joi.object().pattern(/.*/, Joi.object().keys({
+    requested: Joi.string().required(),
+    version: Joi.string().required(),
+    zip: Joi.string().required(),
+    integrity: Joi.string().required(),
+  })).required(),
+});
+
+/**
+ * Returns the lockfile of the project, an empty lockfile if the project does not have one yet
+ *
+ * @param dir The project root
+ */
+export function readLockfile(dir: string): ILockfile {
+  let data;
+  try {
+    data = fs.readFileSync(path.join(dir, LOCKFILE_NAME), 'utf8');
+  } catch (e) {
+    return {modules: {}};
+  }
+
+  let lockfile;
+  try {
+    lockfile = yaml.safeLoad(data) || {modules: {}};
+  } catch (e) {
+    throw new Error(`The ${LOCKFILE_NAME} file could not be parsed: ${e.message}`);
+  }
+  const result = Joi.validate(lockfile, lockfileSchema);
+  if (result.error) {
+    throw new Error(`The ${LOCKFILE_NAME} file is invalid: ${result.error.details[0].message}`);
+  }
+
+  return result.value as ILockfile;
+}
+
+/**
+ * Writes the lockfile to the project root
+ *
+ * @param dir The project root
+ * @param lockfile
+ */
+export function writeLockfile(dir: string, lockfile: ILockfile): void {
+  fs.writeFileSync(
+    path.join(dir, LOCKFILE_NAME),
+    LOCKFILE_HEADER + yaml.safeDump(sortKeys(lockfile), {lineWidth: -1}),
+  );
+}
+
+/**
+ * Returns the IDs of the public modules where the lockfile does not match the slicknode.yml:
+ * Modules that are not locked, that were locked for a different version or that were removed
+ *
+ * @param config
+ * @param lockfile
+ */
+export function getOutdatedLockedModules(config: IProjectConfig, lockfile: ILockfile): string[] {
+  const publicDependencies = Object.keys(config.dependencies)
+    .filter((id) => !id.match(PRIVATE_MODULE_NAME_REGEX));
+  const changed = publicDependencies.filter((id) => {
+    const locked = lockfile.modules[id];
+    return !locked || locked.requested !== config.dependencies[id];
+  });
+  const removed = Object.keys(lockfile.modules)
+    .filter((id) => !publicDependencies.includes(id));
+
+  return [ ...changed, ...removed ].sort();
+}
+
+/**
+ * Returns the subresource integrity string of the SHA512 hash of the data, e.g. sha512-<base64>
+ *
+ * @param data
+ */
+export function getIntegrity(data: Buffer): string {
+  return 'sha512-' + crypto.createHash('sha512').update(data).digest('base64');
+}
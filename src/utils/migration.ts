@@ -0,0 +1,241 @@
+import AdmZip from 'adm-zip';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import _ from 'lodash';
+import Client, {Response, Uploadable} from 'slicknode-client';
+import {IEnvironmentConfig, IProjectChange, IProjectChangeError} from '../types';
+
+export const MIGRATE_PROJECT_MUTATION = `mutation MigrateProjectMutation(
+  $input: migrateProjectInput!
+) {
+  migrateProject(input: $input) {
+    node {
+      id
+      name
+      alias
+      version {
+        id
+        bundle
+      }
+    }
+    errors {
+      description
+      path
+      module
+    }
+    changes {
+      description
+      path
+      module
+      type
+      breaking
+    }
+  }
+}`;
+
+export interface IMigrateProjectPayload {
+  node: {
+    id: string;
+    name: string;
+    alias: string;
+    version: {
+      id: string;
+      bundle: string;
+    } | null;
+  } | null;
+  errors: Array<IProjectChangeError | null> | null;
+  changes: Array<IProjectChange | null> | null;
+}
+
+export interface IMigrateProjectResult {
+  migrateProject: IMigrateProjectPayload | null;
+}
+
+interface IMigrateProjectParams {
+  client: Client;
+  env: IEnvironmentConfig;
+
+  // The project bundle, the entries of the zip are empty after the upload
+  bundle: AdmZip;
+
+  // Only determine the changes without deploying them
+  dryRun: boolean;
+}
+
+interface IConfirmDeploymentOptions {
+  // Ask the user for confirmation, otherwise the deployment has to be confirmed via the other options
+  interactive: boolean;
+
+  // Deploy without confirmation of the changes
+  force: boolean;
+
+  // Apply breaking changes without confirmation
+  allowBreaking: boolean;
+}
+
+/**
+ * Uploads the project bundle and migrates the project of the environment
+ *
+ * @param params
+ */
+export async function migrateProject(params: IMigrateProjectParams): Promise<Response<IMigrateProjectResult>> {
+  const {client, env, bundle, dryRun} = params;
+
+  // Convert zip to buffer
+  const file = await new Promise((resolve, reject) => {
+    bundle.toBuffer(resolve, reject);
+  }) as Uploadable;
+
+  return await client.fetch<IMigrateProjectResult>(MIGRATE_PROJECT_MUTATION,
+    {
+      input: {
+        id: env.id,
+        dryRun,
+      },
+    },
+    null,
+    {
+      file,
+    },
+  );
+}
+
+/**
+ * Returns the errors of the migration that were reported by the server
+ *
+ * @param result
+ */
+export function getMigrationErrors(result: Response<IMigrateProjectResult>): IProjectChangeError[] {
+  return (_.get(result, 'data.migrateProject.errors') || []).filter(Boolean) as IProjectChangeError[];
+}
+
+/**
+ * Returns the changes of the migration
+ *
+ * @param result
+ */
+export function getMigrationChanges(result: Response<IMigrateProjectResult>): IProjectChange[] {
+  return (_.get(result, 'data.migrateProject.changes') || []).filter(Boolean) as IProjectChange[];
+}
+
+/**
+ * Asks the user to confirm the deployment of the changes, breaking changes always need to be
+ * confirmed separately. In non-interactive mode an error is thrown if the deployment was not confirmed via options
+ *
+ * Returns TRUE if the changes should be deployed
+ *
+ * @param changes
+ * @param options
+ */
+export async function confirmDeployment(
+  changes: IProjectChange[],
+  options: IConfirmDeploymentOptions,
+): Promise<boolean> {
+  const breakingCount = changes.filter((change) => change.breaking).length;
+  if (!options.interactive) {
+    if (!options.force) {
+      throw new Error(
+        'The deployment needs to be confirmed, use the --force flag to deploy without an interactive terminal',
+      );
+    }
+    if (breakingCount && !options.allowBreaking) {
+      throw new Error(
+        `The changes contain ${breakingCount} breaking change${breakingCount === 1 ? '' : 's'}, ` +
+        'use the --allow-breaking flag to apply them without an interactive terminal',
+      );
+    }
+    return true;
+  }
+
+  if (!options.force) {
+    const values = await inquirer.prompt([
+      {
+        name: 'confirm',
+        type: 'confirm',
+        message: 'Do you want to deploy the changes?',
+        default: false,
+      },
+    ]) as {confirm: boolean};
+    if (!values.confirm) {
+      return false;
+    }
+  }
+
+  if (breakingCount && !options.allowBreaking) {
+    const values = await inquirer.prompt([
+      {
+        name: 'confirm',
+        type: 'confirm',
+        message: `The deployment contains ${breakingCount} breaking change${breakingCount === 1 ? '' : 's'} ` +
+          'that can result in data loss. Do you want to apply the breaking changes?',
+        default: false,
+      },
+    ]) as {confirm: boolean};
+    if (!values.confirm) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Prints the errors of the migration
+ *
+ * @param errors
+ * @param log
+ */
+export function printErrors(errors: IProjectChangeError[], log: (message: string) => void) {
+  if (errors.length) {
+    log(chalk.red(`\nThe project has ${errors.length} error${errors.length === 1 ? '' : 's'}:`));
+    errors.forEach((error, index) => {
+      log('  ' + chalk.red(`${index + 1}. ${error.description}`));
+    });
+    log('');
+  }
+}
+
+/**
+ * Prints the pending changes of the migration
+ *
+ * @param changes
+ * @param log
+ */
+export function printChanges(changes: IProjectChange[], log: (message: string) => void) {
+  if (changes.length) {
+    const sortedChanges = _.sortBy(changes, (change) => change.type + ':' + (change.path || []).join('.'));
+
+    log(`${changes.length} pending change${changes.length === 1 ? '' : 's'}:`);
+    sortedChanges.forEach((change, index) => {
+      const breaking = change.breaking ? ' ' + chalk.bold.red('[BREAKING]') : '';
+      switch (change.type) {
+        case 'ADD': {
+          log('  ' + chalk.green(`add:    ${change.description}`) + breaking);
+          break;
+        }
+        case 'REMOVE': {
+          log('  ' + chalk.red(`remove:  ${change.description}`) + breaking);
+          break;
+        }
+        case 'UPDATE': {
+          log('  ' + chalk.yellow(`update:  ${change.description}`) + breaking);
+          break;
+        }
+        default: {
+          log('  ' + `${index + 1}. ${change.description}` + breaking);
+          break;
+        }
+      }
+    });
+
+    const breakingCount = changes.filter((change) => change.breaking).length;
+    if (breakingCount) {
+      log(chalk.bold.red(
+        `\n${breakingCount} of the changes ${breakingCount === 1 ? 'is' : 'are'} breaking ` +
+        'and can result in data loss or break existing API clients',
+      ));
+    }
+  } else {
+    log('No changes detected in project.');
+  }
+}
@@ -22,6 +22,18 @@ import execute from './execute';
 
 const glob = promisify(originalGlob);
 
+/**
+ * The files of private modules that are added to the project bundle
+ */
+export const MODULE_FILE_PATTERNS = [
+  'schema.graphql',
+  'README.md',
+  'slicknode.yml',
+  'settings.graphql',
+  'package.json',
+  'permissions/*.graphql',
+];
+
 interface IPackOptions {
   runtimeSources?: boolean;
 }
@@ -51,15 +63,6 @@ async function pack(root: string, options: IPackOptions = {}): Promise<AdmZip> {
       // Only add private modules
       .filter((name) => name.match(PRIVATE_MODULE_NAME_REGEX))
       .map(async (name) => {
-        const patterns = [
-          'schema.graphql',
-          'README.md',
-          'slicknode.yml',
-          'settings.graphql',
-          'package.json',
-          'permissions/*.graphql',
-        ];
-
         const moduleRoot = path.resolve(path.join(root, config.dependencies[name]));
 
         // Load and validate module config
@@ -132,7 +135,7 @@ async function pack(root: string, options: IPackOptions = {}): Promise<AdmZip> {
           });
         }) : Promise.resolve();
 
-        const addFiles = patterns.map(async (pattern) => {
+        const addFiles = MODULE_FILE_PATTERNS.map(async (pattern) => {
           // Add permission files
           const matches = await glob(`${moduleRoot}/${pattern}`) as string[];
           (matches || []).forEach((file) => {
@@ -2,67 +2,121 @@ import AdmZip from 'adm-zip';
 import cli from 'cli-ux';
 import {mkdirp, remove} from 'fs-extra';
 import _ from 'lodash';
-import fetch from 'node-fetch';
 import path from 'path';
 import rimraf from 'rimraf';
 import Client from 'slicknode-client';
-import {IProjectConfig} from '../types';
+import {Fetch} from '../api/http';
+import {ILockedModule, IProjectConfig} from '../types';
 import {PRIVATE_MODULE_NAME_REGEX} from '../validation';
+import {
+  getIntegrity,
+  getOutdatedLockedModules,
+  LOCKFILE_NAME,
+  readLockfile,
+  writeLockfile,
+} from './lockfile';
+import {IRegistryModule, resolveModuleVersion} from './resolveModuleVersion';
 
 interface IPullDependenciesParams {
   config: IProjectConfig;
   dir: string;
   client: Client;
   repositoryUrl?: string;
+  fetch: Fetch;
+
+  /**
+   * Fail instead of updating the lockfile if it does not match the slicknode.yml
+   */
+  frozenLockfile?: boolean;
 }
 
 export const GET_REPOSITORY_URL_QUERY = '{registryUrl}';
 
 /**
+ * Installs the public modules of the project from the registry into the module cache.
+ * Modules are installed in the versions of the slicknode.lock file, versions that are not
+ * locked yet are resolved and added to the lockfile. The lockfile is not deployed, the server
+ * resolves the versions of the slicknode.yml file itself
  *
  * @param params
  */
 export async function pullDependencies(params: IPullDependenciesParams) {
-  const {config, dir, client} = params;
+  const {config, dir, client, frozenLockfile = false, fetch} = params;
   cli.action.start('Updating dependencies');
 
-  // Get repository URL
-  let repositoryUrl = params.repositoryUrl;
-  if (!repositoryUrl) {
-    const result = await client.fetch(GET_REPOSITORY_URL_QUERY);
+  const lockfile = readLockfile(dir);
+  const outdatedModules = getOutdatedLockedModules(config, lockfile);
+  if (frozenLockfile && outdatedModules.length) {
+    throw new Error(
+      `The ${LOCKFILE_NAME} file is out of date with the slicknode.yml for the modules: ` +
+      `${outdatedModules.join(', ')}. Run "slicknode pull" without --frozen-lockfile to update it.`,
+    );
+  }
 
-    repositoryUrl = _.get(result, 'data.registryUrl');
+  // Get repository URL, only needed to resolve versions that are not locked
+  let repositoryUrl = params.repositoryUrl;
+  async function getRepositoryUrl(): Promise<string> {
     if (!repositoryUrl) {
-      throw new Error('Failed to load repository URL from API. Are you offline? Please try again');
+      const result = await client.fetch(GET_REPOSITORY_URL_QUERY);
+
+      repositoryUrl = _.get(result, 'data.registryUrl');
+      if (!repositoryUrl) {
+        throw new Error('Failed to load repository URL from API. Are you offline? Please try again');
+      }
     }
+    return repositoryUrl;
   }
 
   // Only update the dependencies that are in registry
   const publicDependencies = Object.keys(config.dependencies)
     .filter((id) => !id.match(PRIVATE_MODULE_NAME_REGEX));
 
+  const lockedModules: {[id: string]: ILockedModule} = {};
   for (const id of publicDependencies) {
+    const version = config.dependencies[id];
+    let locked: ILockedModule | null = outdatedModules.includes(id) ? null : lockfile.modules[id];
     try {
-      // Load module details from registry
-      const detailUrl = `${repositoryUrl}${id}`;
-      const result = await fetch(detailUrl);
-      if (result.status !== 200) {
-        throw new Error('Metadata could not be loaded. Make sure you are online and try again.');
-      }
-      const data = await result.json();
+      if (!locked) {
+        // Load module details from registry
+        const detailUrl = `${await getRepositoryUrl()}${id}`;
+        const result = await fetch(detailUrl);
+        if (result.status !== 200) {
+          throw new Error('Metadata could not be loaded. Make sure you are online and try again.');
+        }
+        const data: IRegistryModule = await result.json();
 
-      // Check if version is tag, get right zip URL
-      const version = config.dependencies[id];
-      const resolvedVersion = _.get(data, `tags.${version}`, version);
+        // Resolve tag or semver range to the version, get right zip URL
+        const resolvedVersion = resolveModuleVersion(data, version);
 
-      const zipUrl = _.get(data, `versions["${resolvedVersion}"].dist.zip`);
-      if (!zipUrl) {
-        throw new Error(`Version "${version}" could not be found`);
+        const zipUrl = resolvedVersion && _.get(data, `versions["${resolvedVersion}"].dist.zip`);
+        if (!resolvedVersion || !zipUrl) {
+          throw new Error(`Version "${version}" could not be found`);
+        }
+        locked = {
+          requested: version,
+          version: resolvedVersion,
+          zip: zipUrl,
+          integrity: '',
+        };
       }
 
       // Fetch actual source bundle
-      const bundle = await fetch(zipUrl);
-      const zip = new AdmZip(await bundle.buffer());
+      const bundle = await fetch(locked.zip);
+      if (bundle.status !== 200) {
+        throw new Error(`Source archive of version "${locked.version}" could not be loaded.`);
+      }
+      const buffer = await bundle.buffer();
+
+      // Verify that the source archive was not changed since it was locked
+      const integrity = getIntegrity(buffer);
+      if (locked.integrity && locked.integrity !== integrity) {
+        throw new Error(
+          `The source archive of version "${locked.version}" does not match the hash in the ${LOCKFILE_NAME} file.`,
+        );
+      }
+      lockedModules[id] = {...locked, integrity};
+
+      const zip = new AdmZip(buffer);
 
       // Create directory if does not exist
       const moduleDir = path.join(dir, '.slicknode', 'cache', 'modules', id);
@@ -90,4 +144,9 @@ export async function pullDependencies(params: IPullDependenciesParams) {
     }
     cli.action.stop();
   }
+
+  // Write lockfile, locked modules of removed dependencies are dropped
+  if (!_.isEqual(lockfile.modules, lockedModules)) {
+    writeLockfile(dir, {modules: lockedModules});
+  }
 }
@@ -0,0 +1,31 @@
+import _ from 'lodash';
+import semver from 'semver';
+
+export interface IRegistryModule {
+  id: string;
+  tags?: {[tag: string]: string};
+  versions?: {
+    [version: string]: {
+      dist: {
+        zip: string;
+      };
+    };
+  };
+}
+
+/**
+ * Returns the version of the registry module for the version in the slicknode.yml:
+ * The version of a tag like "latest" or the highest version that matches the exact version or semver range,
+ * NULL if no version matches
+ *
+ * @param module The module metadata from the registry
+ * @param version
+ */
+export function resolveModuleVersion(module: IRegistryModule, version: string): string | null {
+  const tagVersion = _.get(module, [ 'tags', version ]);
+  if (tagVersion) {
+    return tagVersion;
+  }
+
+  return semver.maxSatisfying(Object.keys(module.versions || {}), version);
+}
@@ -2,8 +2,20 @@
  * Created by Ivo Meißner on 08.08.17.
  */
 
+import fs from 'fs';
+import {codeFrame} from '../utils/codeFrame';
+
+export interface IValidationErrorLocation {
+  // Absolute path to the file that contains the error
+  file: string;
+
+  // Line and column of the error within the file, starting at 1
+  line?: number;
+  column?: number;
+}
+
 interface IValidationErrorOptions {
-  location?: string;
+  location?: IValidationErrorLocation;
   childErrors?: ValidationError[];
   help?: string;
 }
@@ -22,6 +34,18 @@ export default class ValidationError {
 
   public toString(): string {
     let result = this.message;
+    const location = this.options.location;
+    if (location) {
+      result += `\n  at ${formatLocation(location)}`;
+      if (location.line) {
+        try {
+          const source = fs.readFileSync(location.file, 'utf8');
+          result += '\n\n' + codeFrame(source, location.line, location.column).replace(/^/gm, '  ') + '\n';
+        } catch (e) {
+          // Only print the code frame if the file is readable
+        }
+      }
+    }
     if (this.options.childErrors && this.options.childErrors.length) {
       result += '\n\n';
       result += this.options.childErrors.map((err) => {
@@ -31,3 +55,19 @@ export default class ValidationError {
     return result;
   }
 }
+
+/**
+ * Returns the location in the format path/to/file:line:column
+ *
+ * @param location
+ */
+export function formatLocation(location: IValidationErrorLocation): string {
+  let result = location.file;
+  if (location.line) {
+    result += `:${location.line}`;
+    if (location.column) {
+      result += `:${location.column}`;
+    }
+  }
+  return result;
+}
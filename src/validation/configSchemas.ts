@@ -5,10 +5,13 @@
  */
 
 import Joi from 'joi';
+import semver from 'semver';
 
 import {
   NAMESPACE_REGEX,
   PRIVATE_MODULE_NAME_REGEX,
+  PROFILE_NAME_REGEX,
+  PROJECT_ALIAS_REGEX,
   PUBLIC_MODULE_NAME_REGEX,
 } from './constants';
 
@@ -75,11 +78,57 @@ export const module = Joi.object().keys({
   ),
 });
 
+/**
+ * Version of a public module: The tag "latest", an exact version or a semver range
+ */
+export const moduleVersion = Joi.extend({
+  name: 'string',
+  base: Joi.string(),
+  language: {
+    moduleVersion: 'must be "latest", an exact version like "1.2.0" or a semver range like "^1.2.0"',
+  },
+  rules: [
+    {
+      name: 'moduleVersion',
+      validate(params, value, state, options) {
+        if (value === 'latest' || semver.validRange(value)) {
+          return value;
+        }
+        return this.createError('string.moduleVersion', {value}, state, options);
+      },
+    },
+  ],
+}).string().moduleVersion();
+
 /**
  * Schema for root slicknode.yml
  */
 export const slicknode = Joi.object().keys({
   dependencies: Joi.object()
     .pattern(PRIVATE_MODULE_NAME_REGEX, Joi.string())
-    .pattern(PUBLIC_MODULE_NAME_REGEX, Joi.valid('latest')),
+    .pattern(PUBLIC_MODULE_NAME_REGEX, moduleVersion),
 });
+
+/**
+ * Schema for a single environment in the .slicknoderc file
+ */
+export const environment = Joi.object().keys({
+  id: Joi.string().required(),
+  name: Joi.string().required(),
+  alias: Joi.string().regex(PROJECT_ALIAS_REGEX).required(),
+  endpoint: Joi.string().uri({scheme: [ 'http', 'https' ]}).required(),
+  version: Joi.string().allow(null),
+  default: Joi.boolean(),
+  profile: Joi.string().regex(PROFILE_NAME_REGEX),
+
+  // Written by previous versions of the CLI
+  consoleUrl: Joi.string().uri({scheme: [ 'http', 'https' ]}),
+  playgroundUrl: Joi.string().uri({scheme: [ 'http', 'https' ]}),
+});
+
+/**
+ * Schema for the .slicknoderc file with the environments of the project. The names are not
+ * restricted, because previous versions of the CLI did not validate them
+ */
+export const environments = Joi.object()
+  .pattern(/^.+$/, environment);
@@ -7,6 +7,12 @@ export const PUBLIC_MODULE_NAME_REGEX = /^([a-z0-9]+)((-[a-z0-9]+)*)$/;
 
 export const NAMESPACE_REGEX = /^([A-Z]+)([a-zA-Z0-9]+)$/;
 export const ENVIRONMENT_REGEX = /^([a-z0-9]+)((-[a-z0-9]+)*)$/;
+export const PROFILE_NAME_REGEX = /^([a-z0-9]+)((-[a-z0-9]+)*)$/;
 export const MODULE_LABEL_MAX_LENGTH = 64;
 
 export const PROJECT_ALIAS_REGEX = /^([a-z]+)([a-z0-9]*)((-[a-z0-9]+)*)$/;
+
+export const PERMISSION_OPERATIONS = [ 'CREATE', 'READ', 'UPDATE', 'DELETE' ];
+
+// Roles that are available if no Role enum is defined in the project schema
+export const DEFAULT_ROLES = [ 'ADMIN', 'STAFF', 'AUTHENTICATED', 'ANONYMOUS', 'RUNTIME' ];
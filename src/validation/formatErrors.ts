@@ -0,0 +1,112 @@
+import path from 'path';
+import ValidationError, {IValidationErrorLocation} from './ValidationError';
+
+export interface IValidationErrorRecord {
+  message: string;
+
+  // Messages of the parent errors, from the outermost to the innermost error
+  context: string[];
+
+  // Path of the file relative to the project root
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Flattens the tree of validation errors into a list of records, one for each error
+ * without child errors. Errors without location inherit the location of their parent
+ *
+ * @param errors
+ * @param projectRoot
+ * @param context
+ * @param parentLocation
+ */
+export function flattenErrors(
+  errors: ValidationError[],
+  projectRoot: string,
+  context: string[] = [],
+  parentLocation?: IValidationErrorLocation,
+): IValidationErrorRecord[] {
+  return errors.reduce((records: IValidationErrorRecord[], error) => {
+    const location = error.options.location || parentLocation;
+    const childErrors = error.options.childErrors || [];
+    if (childErrors.length) {
+      return records.concat(flattenErrors(childErrors, projectRoot, [ ...context, error.message ], location));
+    }
+
+    records.push({
+      message: error.message,
+      context,
+      ...(location ? {
+        file: path.relative(projectRoot, location.file).split(path.sep).join('/'),
+        line: location.line,
+        column: location.column,
+      } : {}),
+    });
+    return records;
+  }, []);
+}
+
+/**
+ * Returns the validation errors as JSON document
+ *
+ * @param errors
+ * @param projectRoot
+ */
+export function formatJson(errors: ValidationError[], projectRoot: string): string {
+  return JSON.stringify({
+    valid: errors.length === 0,
+    errors: flattenErrors(errors, projectRoot),
+  }, null, 2);
+}
+
+/**
+ * Returns the validation errors as SARIF 2.1.0 log, that can be used to annotate files in CI
+ * and editors
+ *
+ * @param errors
+ * @param projectRoot
+ * @param version The version of the CLI
+ */
+export function formatSarif(errors: ValidationError[], projectRoot: string, version: string): string {
+  const results = flattenErrors(errors, projectRoot).map((record) => ({
+    level: 'error',
+    message: {
+      text: [ ...record.context, record.message ].join(' '),
+    },
+    locations: record.file ? [
+      {
+        physicalLocation: {
+          artifactLocation: {
+            uri: record.file,
+            uriBaseId: '%SRCROOT%',
+          },
+          ...(record.line ? {
+            region: {
+              startLine: record.line,
+              ...(record.column ? {startColumn: record.column} : {}),
+            },
+          } : {}),
+        },
+      },
+    ] : [],
+  }));
+
+  return JSON.stringify({
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'slicknode',
+            version,
+            informationUri: 'https://slicknode.com',
+          },
+        },
+        results,
+      },
+    ],
+  }, null, 2);
+}
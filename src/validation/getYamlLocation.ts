@@ -0,0 +1,130 @@
+import _ from 'lodash';
+import {IValidationErrorLocation} from './ValidationError';
+
+export interface IYamlSource {
+  // Absolute path of the YAML file
+  file: string;
+
+  // Raw content of the file
+  body: string;
+}
+
+interface IYamlEntry {
+  // Line and column of the entry, starting at 0
+  line: number;
+  column: number;
+
+  // TRUE if the entry is a list item marker "- "
+  item: boolean;
+  content: string;
+}
+
+/**
+ * Returns the location of the value at the given path in a YAML document,
+ * for example ['module', 'namespace'] or ['listeners', 0, 'handler']
+ *
+ * The document is scanned line by line based on the indentation, so this only works
+ * for block style mappings and sequences and pretty printed JSON. If the full path cannot be found,
+ * the location of the deepest parent that was found is returned, NULL if nothing was found.
+ *
+ * @param source The raw YAML document
+ * @param keyPath
+ */
+export function getYamlLocation(
+  source: string,
+  keyPath: Array<string | number>,
+): {line: number, column: number} | null {
+  const entries = getEntries(source);
+  let location = null;
+  let position = 0;
+  let parentColumn = -1;
+
+  for (const key of keyPath) {
+    let childColumn: number | null = null;
+    let itemIndex = -1;
+    let match: IYamlEntry | null = null;
+
+    for (; position < entries.length; position++) {
+      const entry = entries[position];
+
+      // We left the block of the parent
+      if (entry.column <= parentColumn) {
+        break;
+      }
+      if (childColumn === null) {
+        childColumn = entry.column;
+      }
+      if (entry.column !== childColumn) {
+        continue;
+      }
+
+      if (typeof key === 'number') {
+        if (entry.item && ++itemIndex === key) {
+          match = entry;
+          break;
+        }
+      } else if (
+        !entry.item &&
+        entry.content.match(new RegExp(`^(["']?)${_.escapeRegExp(key)}\\1\\s*:(\\s|$)`))
+      ) {
+        match = entry;
+        break;
+      }
+    }
+
+    if (!match) {
+      break;
+    }
+    location = {line: match.line + 1, column: match.column + 1};
+    parentColumn = match.column;
+    position++;
+  }
+
+  return location;
+}
+
+/**
+ * Returns the error location of the value at the given path in the YAML file
+ *
+ * @param source
+ * @param keyPath
+ */
+export function getYamlErrorLocation(
+  source: IYamlSource,
+  keyPath: Array<string | number>,
+): IValidationErrorLocation {
+  return {
+    file: source.file,
+    ...getYamlLocation(source.body, keyPath),
+  };
+}
+
+/**
+ * Splits the document into entries, list items with inline content "- key: value"
+ * are split into the item marker and the content
+ *
+ * @param source
+ */
+function getEntries(source: string): IYamlEntry[] {
+  const entries: IYamlEntry[] = [];
+  source.split(/\r?\n/).forEach((line, lineIndex) => {
+    let column = line.search(/\S/);
+    // Skip empty lines, comments and lines that only contain JSON brackets
+    if (column === -1 || line[column] === '#' || line.match(/^[\s{}\[\],]*$/)) {
+      return;
+    }
+    let content = line.substr(column);
+    while (content.match(/^-(\s|$)/)) {
+      entries.push({line: lineIndex, column, item: true, content});
+      const offset = content.substr(1).search(/\S/);
+      if (offset === -1) {
+        return;
+      }
+      column += offset + 1;
+      content = content.substr(offset + 1);
+    }
+    entries.push({line: lineIndex, column, item: false, content});
+  });
+
+  return entries;
+}
@@ -10,6 +10,8 @@ export {default as validateConfig} from './validateConfig';
 
 export {default as validateModule} from './validateModule';
 
+export {default as validateEnvironments} from './validateEnvironments';
+
 export {
   PRIVATE_MODULE_NAME_REGEX,
   PUBLIC_MODULE_NAME_REGEX,
@@ -2,23 +2,50 @@
  * Created by Ivo Meißner on 08.08.17.
  */
 
+import fs from 'fs';
+import {GraphQLSchema} from 'graphql';
 import path from 'path';
 import {IProjectConfig} from '../types';
 import {
   PRIVATE_MODULE_NAME_REGEX,
 } from './constants';
 import validateConfig from './validateConfig';
+import validateHandlers from './validateHandlers';
+import validateListeners from './validateListeners';
 import validateModulePath from './validateModulePath';
-import validateSchema from './validateSchema';
+import validateNamespaces from './validateNamespaces';
+import validatePermissions from './validatePermissions';
+import validateSchema, {buildProjectSchema} from './validateSchema';
 import ValidationError from './ValidationError';
 
+export interface IValidateOptions {
+  /**
+   * Load the handlers of the modules in a separate process to check their exports,
+   * this runs the runtime code of the modules
+   */
+  loadHandlers?: boolean;
+}
+
 // $FlowFixMe: Does not recognize the filtering of NULL values
-async function validate(projectDir: string, config: {[key: string]: any}): Promise<ValidationError[]> {
+async function validate(
+  projectDir: string,
+  config: {[key: string]: any},
+  options: IValidateOptions = {},
+): Promise<ValidationError[]> {
   if (!config) {
     return [ new ValidationError('The directory is not a slicknode project') ];
   }
 
-  const configErrors = await validateConfig(config);
+  // Load raw config to add locations to the errors
+  const configFile = path.join(projectDir, 'slicknode.yml');
+  let configSource;
+  try {
+    configSource = {file: configFile, body: fs.readFileSync(configFile, 'utf8')};
+  } catch (e) {
+    configSource = undefined;
+  }
+
+  const configErrors = await validateConfig(config, configSource);
   if (configErrors.length) {
     return configErrors;
   }
@@ -42,15 +69,56 @@ async function validate(projectDir: string, config: {[key: string]: any}): Promi
   // Ignore empty errors
   moduleErrors = moduleErrors.filter((err) => err);
 
-  // Merge all modules and build schema
-  let schemaErrors = [];
+  // Namespaces have to be unique across all modules, including public modules
+  let namespaceErrors: ValidationError[] = [];
   if (!moduleErrors.length) {
+    namespaceErrors = await validateNamespaces(projectDir, validatedConfig);
+  }
+
+  // Merge all modules and build schema
+  let schemaErrors: ValidationError[] = [];
+  if (!moduleErrors.length && !namespaceErrors.length) {
     schemaErrors = await validateSchema(projectDir, validatedConfig);
   }
 
+  // Validate permission documents, handlers and listeners of private modules against the merged schema
+  let permissionErrors: ValidationError[] = [];
+  let handlerErrors: ValidationError[] = [];
+  let listenerErrors: ValidationError[] = [];
+  if (!moduleErrors.length && !namespaceErrors.length && !schemaErrors.length) {
+    const schema = await buildProjectSchema(projectDir, validatedConfig);
+    const validateLocalModules = async (
+      message: string,
+      validator: (moduleDir: string, projectSchema: GraphQLSchema) => Promise<ValidationError[]>,
+    ): Promise<ValidationError[]> => {
+      const errors = await Promise.all(
+        localModules.map(async (name) => {
+          const childErrors = await validator(path.join(projectDir, validatedConfig.dependencies[name]), schema);
+          if (childErrors.length) {
+            return new ValidationError(`${message} "${name}":`, {
+              childErrors,
+            });
+          }
+        }),
+      );
+      return errors.filter((err) => err) as ValidationError[];
+    };
+
+    permissionErrors = await validateLocalModules('Invalid permissions in module', validatePermissions);
+    handlerErrors = await validateLocalModules(
+      'Invalid handlers in module',
+      (moduleDir, projectSchema) => validateHandlers(moduleDir, projectSchema, Boolean(options.loadHandlers)),
+    );
+    listenerErrors = await validateLocalModules('Invalid listeners in module', validateListeners);
+  }
+
   return [
+    ...namespaceErrors,
     ...schemaErrors,
-    ...moduleErrors,
+    ...moduleErrors as ValidationError[],
+    ...permissionErrors,
+    ...handlerErrors,
+    ...listenerErrors,
   ];
 }
 
@@ -16,8 +16,18 @@ import {
 import {
   PRIVATE_MODULE_NAME_REGEX,
 } from './constants';
+import {getYamlErrorLocation, IYamlSource} from './getYamlLocation';
 
-async function validate(config: {[key: string]: any} | null): Promise<ValidationError[]> {
+/**
+ * Validates the project config
+ *
+ * @param config
+ * @param source The raw slicknode.yml file of the project, used to add the location of errors
+ */
+async function validate(
+  config: {[key: string]: any} | null,
+  source?: IYamlSource,
+): Promise<ValidationError[]> {
   const errors = [];
   try {
     const result = Joi.validate(config, schema, {
@@ -25,12 +35,15 @@ async function validate(config: {[key: string]: any} | null): Promise<Validation
     }) as ValidationResult<IProjectConfig>;
     if (result.error) {
       const childErrors = (result.error.details || []).map((detail) => {
-        return new ValidationError(`Invalid value at path "${detail.path}": ${detail.message}`);
+        return new ValidationError(`Invalid value at path "${detail.path}": ${detail.message}`, {
+          location: source ? getYamlErrorLocation(source, detail.path) : undefined,
+        });
       });
       errors.push(new ValidationError(
         'Invalid values in slicknode.yml configuration',
         {
           childErrors,
+          location: source ? {file: source.file} : undefined,
         },
       ));
       return errors;
@@ -51,11 +64,17 @@ async function validate(config: {[key: string]: any} | null): Promise<Validation
     if (duplicates.length) {
       errors.push(
         new ValidationError(
-          `Multiple modules in slicknode.yml point to the same paths: \n\n${_.uniq(duplicates).join('\n')}`),
+          `Multiple modules in slicknode.yml point to the same paths: \n\n${_.uniq(duplicates).join('\n')}`,
+          {
+            location: source ? getYamlErrorLocation(source, ['dependencies']) : undefined,
+          },
+        ),
       );
     }
   } catch (e) {
-    errors.push(new ValidationError(e.message));
+    errors.push(new ValidationError(e.message, {
+      location: source ? {file: source.file} : undefined,
+    }));
     return errors;
   }
 
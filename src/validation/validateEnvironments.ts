@@ -0,0 +1,52 @@
+import Joi from 'joi';
+import _ from 'lodash';
+import ValidationError from './ValidationError';
+
+import {
+  environments as schema,
+} from './configSchemas';
+import {getYamlErrorLocation, IYamlSource} from './getYamlLocation';
+
+/**
+ * Validates the environment map of the .slicknoderc file
+ *
+ * @param envMap
+ * @param source The raw .slicknoderc file, used to add the location of errors
+ */
+function validateEnvironments(
+  envMap: {[key: string]: any} | null,
+  source?: IYamlSource,
+): ValidationError[] {
+  if (!_.isPlainObject(envMap)) {
+    return [
+      new ValidationError('The .slicknoderc file has to contain an object with the environments', {
+        location: source ? {file: source.file} : undefined,
+      }),
+    ];
+  }
+
+  const result = Joi.validate(envMap, schema, {
+    abortEarly: false,
+  });
+  if (!result.error) {
+    return [];
+  }
+
+  const childErrors = (result.error.details || []).map((detail) => {
+    return new ValidationError(`Invalid value at path "${detail.path.join('.')}": ${detail.message}`, {
+      location: source ? getYamlErrorLocation(source, detail.path) : undefined,
+    });
+  });
+
+  return [
+    new ValidationError(
+      'Invalid values in .slicknoderc configuration',
+      {
+        childErrors,
+        location: source ? {file: source.file} : undefined,
+      },
+    ),
+  ];
+}
+
+export default validateEnvironments;
@@ -0,0 +1,161 @@
+import {promisify} from 'es6-promisify';
+import fs from 'fs';
+import {
+  GraphQLSchema,
+  isInterfaceType,
+  isObjectType,
+} from 'graphql';
+import yaml from 'js-yaml';
+import path from 'path';
+import {IModuleConfig} from '../types';
+import execute from '../utils/execute';
+import {getYamlErrorLocation, IYamlSource} from './getYamlLocation';
+import ValidationError from './ValidationError';
+
+const readFile = promisify(fs.readFile) as Function; // tslint:disable-line
+
+/**
+ * Script that loads the handler in a separate node process and prints the type of the exported handler
+ */
+const HANDLER_EXPORT_SCRIPT = `
+try {
+  let exported = require(process.argv[1]);
+  if (exported && typeof exported === 'object') {
+    exported = exported.default;
+  }
+  process.stdout.write(typeof exported);
+} catch (e) {
+  process.stderr.write(e.message);
+  process.exit(1);
+}
+`;
+
+interface IHandlerReference {
+  handler: string;
+
+  // Path of the handler in the slicknode.yml of the module
+  keyPath: Array<string | number>;
+}
+
+/**
+ * Validates the listener and resolver handlers of the module against the runtime code
+ * of the module and the merged schema of the project
+ *
+ * @param moduleDir
+ * @param schema The merged schema of the project
+ * @param loadHandlers Load the handlers in a separate process to check the exports, this runs the module code
+ */
+export default async function validateHandlers(
+  moduleDir: string,
+  schema: GraphQLSchema,
+  loadHandlers: boolean = false,
+): Promise<ValidationError[]> {
+  const configFile = path.join(moduleDir, 'slicknode.yml');
+  const source: IYamlSource = {file: configFile, body: await readFile(configFile, 'utf8')};
+  const config = yaml.safeLoad(source.body) as IModuleConfig;
+  const errors: ValidationError[] = [];
+  const handlers: IHandlerReference[] = [];
+
+  (config.listeners || []).forEach((listener, index) => {
+    handlers.push({handler: listener.handler, keyPath: [ 'listeners', index, 'handler' ]});
+  });
+
+  // Check if resolvers point to existing fields
+  const resolvers = config.resolvers || {};
+  for (const typeName of Object.keys(resolvers)) {
+    const type = schema.getType(typeName);
+    if (!isObjectType(type) && !isInterfaceType(type)) {
+      errors.push(new ValidationError(
+        `Resolvers are configured for type "${typeName}", but the type does not exist in the schema`,
+        {location: getYamlErrorLocation(source, [ 'resolvers', typeName ])},
+      ));
+      continue;
+    }
+    const fields = type.getFields();
+    for (const fieldName of Object.keys(resolvers[typeName])) {
+      if (!fields[fieldName]) {
+        errors.push(new ValidationError(
+          `Resolver is configured for field "${typeName}.${fieldName}", but the field does not exist in the schema`,
+          {location: getYamlErrorLocation(source, [ 'resolvers', typeName, fieldName ])},
+        ));
+      }
+      handlers.push({
+        handler: resolvers[typeName][fieldName].handler,
+        keyPath: [ 'resolvers', typeName, fieldName, 'handler' ],
+      });
+    }
+  }
+
+  if (!handlers.length) {
+    return errors;
+  }
+
+  if (!config.runtime) {
+    errors.push(new ValidationError(
+      'The module has handlers configured but no runtime. Add the runtime to the slicknode.yml, ' +
+      'for example: "runtime: {engine: nodejs@12}"',
+      {location: getYamlErrorLocation(source, handlers[0].keyPath)},
+    ));
+  }
+
+  // Handlers are loaded from the module package
+  if (!fs.existsSync(path.join(moduleDir, 'package.json'))) {
+    errors.push(new ValidationError(
+      `The module has handlers configured but no package.json file in the module directory: ${moduleDir}`,
+      {location: {file: configFile}},
+    ));
+    return errors;
+  }
+
+  for (const {handler, keyPath} of handlers) {
+    const error = await validateHandler(moduleDir, handler, loadHandlers);
+    if (error) {
+      errors.push(new ValidationError(error, {
+        location: getYamlErrorLocation(source, keyPath),
+      }));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Resolves the handler the same way as the runtime and returns an error message
+ * if it cannot be used, NULL otherwise
+ *
+ * @param moduleDir
+ * @param handler
+ * @param loadHandler Load the handler in a separate process to check the export
+ */
+async function validateHandler(moduleDir: string, handler: string, loadHandler: boolean): Promise<string | null> {
+  const handlerPath = path.resolve(moduleDir, handler);
+  if (!handlerPath.startsWith(path.resolve(moduleDir) + path.sep)) {
+    return `Handler "${handler}" has to be located inside of the module directory`;
+  }
+
+  let resolvedPath;
+  try {
+    resolvedPath = require.resolve(handlerPath);
+  } catch (e) {
+    return `Handler "${handler}" could not be found in the module directory ${moduleDir}`;
+  }
+
+  if (!loadHandler) {
+    return null;
+  }
+
+  // Load the handler in a child process, so the module code does not run in the CLI process
+  let exportedType;
+  try {
+    exportedType = (await execute(process.execPath, [ '-e', HANDLER_EXPORT_SCRIPT, resolvedPath ], null, {
+      cwd: moduleDir,
+    })).trim();
+  } catch (e) {
+    return `Handler "${handler}" could not be loaded: ${e.message.trim()}`;
+  }
+  if (exportedType !== 'function') {
+    return `Handler "${handler}" has to export a function, got ${exportedType}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,159 @@
+import {promisify} from 'es6-promisify';
+import fs from 'fs';
+import {
+  getNamedType,
+  GraphQLSchema,
+  isObjectType,
+  parse,
+  validate,
+} from 'graphql';
+import yaml from 'js-yaml';
+import path from 'path';
+import {IAfterMutationListener, IModuleConfig} from '../types';
+import {getYamlErrorLocation, IYamlSource} from './getYamlLocation';
+import ValidationError from './ValidationError';
+
+const readFile = promisify(fs.readFile) as Function; // tslint:disable-line
+
+const MUTATION_EVENT_REGEX = /^mutation\.([a-zA-Z0-9_]+)\.(BEFORE|AFTER)$/;
+
+/**
+ * Validates the events of the listeners in the module against the mutations of the
+ * merged schema and the queries of AFTER hooks against the mutation payload type
+ *
+ * @param moduleDir
+ * @param schema The merged schema of the project
+ */
+export default async function validateListeners(
+  moduleDir: string,
+  schema: GraphQLSchema,
+): Promise<ValidationError[]> {
+  const configFile = path.join(moduleDir, 'slicknode.yml');
+  const source: IYamlSource = {file: configFile, body: await readFile(configFile, 'utf8')};
+  const config = yaml.safeLoad(source.body) as IModuleConfig;
+  const listeners = config.listeners || [];
+  if (!listeners.length) {
+    return [];
+  }
+
+  const mutationType = schema.getMutationType();
+  const mutationFields = mutationType ? mutationType.getFields() : {};
+  const mutationNames = [
+    ...Object.keys(mutationFields),
+    ...getGeneratedMutationNames(schema),
+  ];
+  const errors: ValidationError[] = [];
+
+  listeners.forEach((listener, index) => {
+    const match = listener.event.match(MUTATION_EVENT_REGEX);
+    if (!match) {
+      return;
+    }
+    const [ , mutationName, hook ] = match;
+    if (!mutationNames.includes(mutationName)) {
+      const suggestion = getClosestMatch(mutationName, mutationNames);
+      errors.push(new ValidationError(
+        `The listener event "${listener.event}" refers to the mutation "${mutationName}" ` +
+        'that does not exist in the schema' + (suggestion ? `. Did you mean "${suggestion}"?` : ''),
+        {location: getYamlErrorLocation(source, [ 'listeners', index, 'event' ])},
+      ));
+      return;
+    }
+
+    const query = hook === 'AFTER' ? ((listener as IAfterMutationListener).config || {}).query : null;
+    const mutationField = mutationFields[mutationName];
+
+    // Payload types of generated mutations are not part of the local schema
+    if (!query || !mutationField) {
+      return;
+    }
+    const payloadType = getNamedType(mutationField.type);
+    if (!isObjectType(payloadType)) {
+      return;
+    }
+
+    const location = getYamlErrorLocation(source, [ 'listeners', index, 'config', 'query' ]);
+    let document;
+    try {
+      document = parse(query);
+    } catch (e) {
+      errors.push(new ValidationError(
+        `Error parsing query of listener "${listener.event}": ${e.message}`,
+        {location},
+      ));
+      return;
+    }
+
+    // The query is executed against the payload of the mutation
+    const payloadSchema = new GraphQLSchema({query: payloadType});
+    validate(payloadSchema, document).forEach((error) => {
+      errors.push(new ValidationError(
+        `Invalid query of listener "${listener.event}" for payload type "${payloadType.name}": ${error.message}`,
+        {location},
+      ));
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Returns the names of the CRUD mutations that are generated by the API for all
+ * types that implement the Node interface
+ *
+ * @param schema
+ */
+function getGeneratedMutationNames(schema: GraphQLSchema): string[] {
+  const typeMap = schema.getTypeMap();
+  return Object.keys(typeMap).reduce((names: string[], typeName) => {
+    const type = typeMap[typeName];
+    if (isObjectType(type) && type.getInterfaces().some((iface) => iface.name === 'Node')) {
+      names.push(`create${typeName}`, `update${typeName}`, `delete${typeName}`);
+    }
+    return names;
+  }, []);
+}
+
+/**
+ * Returns the option with the smallest edit distance to the value, NULL if no option
+ * is similar enough
+ *
+ * @param value
+ * @param options
+ */
+function getClosestMatch(value: string, options: string[]): string | null {
+  let closestMatch = null;
+  let closestDistance = Math.max(2, Math.floor(value.length / 3)) + 1;
+  for (const option of options) {
+    const distance = getEditDistance(value.toLowerCase(), option.toLowerCase());
+    if (distance < closestDistance) {
+      closestMatch = option;
+      closestDistance = distance;
+    }
+  }
+
+  return closestMatch;
+}
+
+/**
+ * Returns the Levenshtein distance of two strings
+ *
+ * @param a
+ * @param b
+ */
+function getEditDistance(a: string, b: string): number {
+  let previousRow = Array.from({length: b.length + 1}, (value, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [ i ];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        previousRow[j] + 1,
+        row[j - 1] + 1,
+        previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previousRow = row;
+  }
+
+  return previousRow[b.length];
+}
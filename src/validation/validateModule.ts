@@ -4,9 +4,19 @@
 
 import Joi from 'joi';
 import {module as schema} from './configSchemas';
+import {getYamlErrorLocation, IYamlSource} from './getYamlLocation';
 import ValidationError from './ValidationError';
 
-export default async function validateModule(config: {[key: string]: any}): Promise<ValidationError[]> {
+/**
+ * Validates the module config
+ *
+ * @param config
+ * @param source The raw slicknode.yml file of the module, used to add the location of errors
+ */
+export default async function validateModule(
+  config: {[key: string]: any},
+  source?: IYamlSource,
+): Promise<ValidationError[]> {
   const errors: ValidationError[] = [];
   try {
     const result = Joi.validate(config, schema, {
@@ -14,11 +24,15 @@ export default async function validateModule(config: {[key: string]: any}): Prom
     });
     if (result.error) {
       return (result.error.details || []).map((detail) => {
-        return new ValidationError(`Invalid value at path "${detail.path}": ${detail.message}`);
+        return new ValidationError(`Invalid value at path "${detail.path}": ${detail.message}`, {
+          location: source ? getYamlErrorLocation(source, detail.path) : undefined,
+        });
       });
     }
   } catch (e) {
-    errors.push(new ValidationError(e.message));
+    errors.push(new ValidationError(e.message, {
+      location: source ? {file: source.file} : undefined,
+    }));
     return errors;
   }
 
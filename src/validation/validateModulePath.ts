@@ -3,15 +3,19 @@
  */
 import {promisify} from 'es6-promisify';
 import fs, {PathLike} from 'fs';
+import originalGlob from 'glob';
 import {
   parse,
+  Source,
 } from 'graphql';
 import yaml from 'js-yaml';
 import path from 'path';
 import validateModule from './validateModule';
+import {validateSchemaNamespace} from './validateNamespaces';
 import ValidationError from './ValidationError';
 
 const readFile = promisify(fs.readFile) as Function; // tslint:disable-line
+const glob = promisify(originalGlob);
 
 /**
  * Loads module configuration in the path and validates values
@@ -20,19 +24,23 @@ const readFile = promisify(fs.readFile) as Function; // tslint:disable-line
  */
 export default async function validateModulePath(moduleDir: string): Promise<ValidationError[]> {
   const errors = [];
+  let moduleConfig: any = null;
 
   // Read and validate slicknode.yml configuration
   try {
+    const configFile = path.join(moduleDir, 'slicknode.yml');
     const rawConfig = await readFile(
-      path.join(moduleDir, 'slicknode.yml'),
+      configFile,
       'utf8',
     );
     try {
       const config = (yaml.safeLoad(rawConfig) as any);
 
       // Validate config file
-      const childErrors = await validateModule(config);
-      if (childErrors.length) {
+      const childErrors = await validateModule(config, {file: configFile, body: rawConfig});
+      if (!childErrors.length) {
+        moduleConfig = config;
+      } else {
         errors.push(
           new ValidationError(`Invalid configuration: ${moduleDir}/slicknode.yml`, {
             childErrors,
@@ -40,7 +48,13 @@ export default async function validateModulePath(moduleDir: string): Promise<Val
         );
       }
     } catch (e) {
-      errors.push(new ValidationError(`Error parsing module config ${moduleDir}/slicknode.yml: ${e.message}`));
+      errors.push(new ValidationError(`Error parsing module config ${moduleDir}/slicknode.yml: ${e.message}`, {
+        location: {
+          file: configFile,
+          // Marks of the YAML parser start at 0
+          ...(e.mark ? {line: e.mark.line + 1, column: e.mark.column + 1} : {}),
+        },
+      }));
     }
   } catch (e) {
     let message = e.message;
@@ -64,7 +78,12 @@ export default async function validateModulePath(moduleDir: string): Promise<Val
     );
     try {
       // Check if document can be parsed
-      parse(rawSchema);
+      const document = parse(new Source(rawSchema, schemaPath));
+
+      // Types of remote modules are namespaced automatically
+      if (moduleConfig && moduleConfig.module.namespace && !moduleConfig.module.remote) {
+        errors.push(...validateSchemaNamespace(document, moduleConfig.module.namespace));
+      }
     } catch (e) {
       // Ignore empty file parsing error
       if (!(
@@ -74,7 +93,12 @@ export default async function validateModulePath(moduleDir: string): Promise<Val
         e.locations[0].line === 1 &&
         e.locations[0].column === 1
       )) {
-        errors.push(new ValidationError(`Error parsing schema ${schemaPath}: ${e.message}`));
+        errors.push(new ValidationError(`Error parsing schema ${schemaPath}: ${e.message}`, {
+          location: {
+            file: schemaPath,
+            ...(e.locations && e.locations.length ? e.locations[0] : {}),
+          },
+        }));
       }
     }
   } catch (e) {
@@ -90,7 +114,26 @@ export default async function validateModulePath(moduleDir: string): Promise<Val
     errors.push(new ValidationError(message));
   }
 
-  // @TODO: Read and parse permission files
+  // Read and parse permission files
+  const permissionFiles = await glob(path.join(moduleDir, 'permissions', '*.graphql')) as string[];
+  for (const permissionFile of permissionFiles) {
+    try {
+      const rawPermissions = await readFile(permissionFile, 'utf8');
+      if (rawPermissions.trim()) {
+        parse(rawPermissions);
+      }
+    } catch (e) {
+      errors.push(new ValidationError(
+        `Error parsing permission document ${permissionFile}: ${e.message}`,
+        {
+          location: {
+            file: permissionFile,
+            ...(e.locations && e.locations.length ? e.locations[0] : {}),
+          },
+        },
+      ));
+    }
+  }
 
   return errors;
 }
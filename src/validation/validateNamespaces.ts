@@ -0,0 +1,153 @@
+import {promisify} from 'es6-promisify';
+import fs from 'fs';
+import {
+  ASTNode,
+  DocumentNode,
+  getLocation,
+  Kind,
+} from 'graphql';
+import yaml from 'js-yaml';
+import _ from 'lodash';
+import path from 'path';
+import {IProjectConfig} from '../types';
+import {PRIVATE_MODULE_NAME_REGEX} from './constants';
+import {getYamlErrorLocation} from './getYamlLocation';
+import ValidationError, {IValidationErrorLocation} from './ValidationError';
+
+const readFile = promisify(fs.readFile) as Function; // tslint:disable-line
+
+interface IModuleNamespace {
+  // The module ID as used in the dependencies
+  id: string;
+  namespace: string;
+
+  // Path to the slicknode.yml file of the module
+  file: string;
+
+  // Raw content of the slicknode.yml file
+  body: string;
+}
+
+/**
+ * Loads the namespaces of all modules in the project, including the public modules
+ * in the cache. Modules without namespace or with unreadable config are ignored
+ *
+ * @param projectDir
+ * @param config
+ */
+export async function loadModuleNamespaces(projectDir: string, config: IProjectConfig): Promise<IModuleNamespace[]> {
+  const namespaces = await Promise.all(
+    Object.keys(config.dependencies || {}).map(async (id) => {
+      const moduleDir = id.match(PRIVATE_MODULE_NAME_REGEX) ?
+        path.resolve(projectDir, config.dependencies[id]) :
+        path.join(projectDir, '.slicknode', 'cache', 'modules', id);
+      const file = path.join(moduleDir, 'slicknode.yml');
+      try {
+        const body = await readFile(file, 'utf8');
+        const namespace = _.get(yaml.safeLoad(body), 'module.namespace');
+        if (namespace && typeof namespace === 'string') {
+          return {id, namespace, file, body};
+        }
+      } catch (e) {
+        // Invalid module configs are reported by the module validation
+      }
+      return null;
+    }),
+  );
+
+  return namespaces.filter((namespace) => namespace) as IModuleNamespace[];
+}
+
+/**
+ * Validates that every namespace is only used by one module of the project
+ *
+ * @param projectDir
+ * @param config
+ */
+export default async function validateNamespaces(
+  projectDir: string,
+  config: IProjectConfig,
+): Promise<ValidationError[]> {
+  const namespaces = await loadModuleNamespaces(projectDir, config);
+  const modulesByNamespace: {[namespace: string]: string} = {};
+  const errors: ValidationError[] = [];
+
+  for (const module of namespaces) {
+    const existingModule = modulesByNamespace[module.namespace];
+    if (existingModule) {
+      errors.push(new ValidationError(
+        `The namespace "${module.namespace}" of module "${module.id}" is already used by ` +
+        `module "${existingModule}". Each module needs a unique namespace`,
+        {
+          location: getYamlErrorLocation(module, [ 'module', 'namespace' ]),
+        },
+      ));
+    } else {
+      modulesByNamespace[module.namespace] = module.id;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates that all types and root fields defined in the schema of a module
+ * start with the namespace of the module, for example Blog_Post or Blog_listPosts
+ *
+ * @param document The parsed schema.graphql of the module
+ * @param namespace
+ */
+export function validateSchemaNamespace(document: DocumentNode, namespace: string): ValidationError[] {
+  const prefix = `${namespace}_`;
+  const errors: ValidationError[] = [];
+
+  for (const definition of document.definitions) {
+    switch (definition.kind) {
+      case Kind.OBJECT_TYPE_DEFINITION:
+      case Kind.INTERFACE_TYPE_DEFINITION:
+      case Kind.UNION_TYPE_DEFINITION:
+      case Kind.ENUM_TYPE_DEFINITION:
+      case Kind.INPUT_OBJECT_TYPE_DEFINITION:
+      case Kind.SCALAR_TYPE_DEFINITION: {
+        const name = definition.name.value;
+        if (!name.startsWith(prefix)) {
+          errors.push(new ValidationError(
+            `The type name "${name}" has to start with the namespace of the module "${prefix}", ` +
+            `for example: "${prefix}${name}"`,
+            {location: getNodeLocation(definition.name)},
+          ));
+        }
+        break;
+      }
+      case Kind.OBJECT_TYPE_EXTENSION: {
+        const typeName = definition.name.value;
+        if (![ 'Query', 'Mutation' ].includes(typeName)) {
+          break;
+        }
+        for (const field of definition.fields || []) {
+          const name = field.name.value;
+          if (!name.startsWith(prefix)) {
+            errors.push(new ValidationError(
+              `The field "${name}" on type "${typeName}" has to start with the namespace of the module ` +
+              `"${prefix}", for example: "${prefix}${name}"`,
+              {location: getNodeLocation(field.name)},
+            ));
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  return errors;
+}
+
+function getNodeLocation(node: ASTNode): IValidationErrorLocation | undefined {
+  if (!node.loc) {
+    return undefined;
+  }
+  return {
+    file: node.loc.source.name,
+    ...getLocation(node.loc.source, node.loc.start),
+  };
+}
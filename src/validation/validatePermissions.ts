@@ -0,0 +1,291 @@
+import {promisify} from 'es6-promisify';
+import fs from 'fs';
+import originalGlob from 'glob';
+import {
+  ASTNode,
+  FieldNode,
+  getLocation,
+  getNamedType,
+  GraphQLInterfaceType,
+  GraphQLObjectType,
+  GraphQLSchema,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isObjectType,
+  Kind,
+  ObjectValueNode,
+  parse,
+  print,
+  Source,
+} from 'graphql';
+import path from 'path';
+import {
+  DEFAULT_ROLES,
+  PERMISSION_OPERATIONS,
+} from './constants';
+import ValidationError from './ValidationError';
+
+const readFile = promisify(fs.readFile) as Function; // tslint:disable-line
+const glob = promisify(originalGlob);
+
+interface IPermissionContext {
+  schema: GraphQLSchema;
+  source: Source;
+  roles: string[];
+  errors: ValidationError[];
+
+  // The type the permission document applies to, NULL for mutation permissions
+  type: GraphQLObjectType | null;
+}
+
+/**
+ * Validates all permission files in the permissions directory of the module
+ *
+ * @param moduleDir
+ * @param schema The merged schema of the project
+ */
+export default async function validatePermissions(
+  moduleDir: string,
+  schema: GraphQLSchema,
+): Promise<ValidationError[]> {
+  const files = await glob(path.join(moduleDir, 'permissions', '*.graphql')) as string[];
+  const roleType = schema.getType('Role');
+  const roles = isEnumType(roleType) ? roleType.getValues().map((value) => value.name) : DEFAULT_ROLES;
+
+  const results = await Promise.all(files.map(async (file) => {
+    const source = new Source(await readFile(file, 'utf8'), file);
+    const context: IPermissionContext = {
+      schema,
+      source,
+      roles,
+      errors: [],
+      type: null,
+    };
+
+    // Permission files are named after the type or the mutation (Mutation.<fieldName>.graphql)
+    const name = path.basename(file, '.graphql');
+    if (name.startsWith('Mutation.')) {
+      const mutationType = schema.getMutationType();
+      const fieldName = name.substr('Mutation.'.length);
+      if (!mutationType || !mutationType.getFields()[fieldName]) {
+        return [
+          new ValidationError(
+            `Permission file ${file} does not match a mutation in the schema, ` +
+            `mutation "${fieldName}" does not exist`,
+            {location: {file}},
+          ),
+        ];
+      }
+    } else {
+      const type = schema.getType(name);
+      if (!isObjectType(type)) {
+        return [
+          new ValidationError(
+            `Permission file ${file} does not match a type in the schema, ` +
+            'the file name has to be the name of an object type',
+            {location: {file}},
+          ),
+        ];
+      }
+      context.type = type;
+    }
+
+    validateDocument(context);
+    return context.errors;
+  }));
+
+  return results.reduce((allErrors, errors) => allErrors.concat(errors), []);
+}
+
+/**
+ * Validates the permission queries of a single permission document
+ *
+ * @param context
+ */
+function validateDocument(context: IPermissionContext) {
+  let document;
+  try {
+    document = parse(context.source);
+  } catch (e) {
+    // Empty permission documents are allowed
+    if (!context.source.body.trim()) {
+      return;
+    }
+    context.errors.push(new ValidationError(
+      `Error parsing permission document ${context.source.name}: ${e.message}`,
+      {
+        location: {
+          file: context.source.name,
+          ...(e.locations && e.locations.length ? e.locations[0] : {}),
+        },
+      },
+    ));
+    return;
+  }
+
+  for (const definition of document.definitions) {
+    if (definition.kind !== Kind.OPERATION_DEFINITION || definition.operation !== 'query') {
+      reportError(context, definition, 'Permission documents can only contain query operations');
+      continue;
+    }
+
+    let scopeCount = 0;
+    for (const selection of definition.selectionSet.selections) {
+      if (selection.kind !== Kind.FIELD) {
+        reportError(context, selection, 'Fragments are not supported in permission queries');
+        continue;
+      }
+      switch (selection.name.value) {
+        case 'scope': {
+          scopeCount++;
+          validateScope(context, selection);
+          break;
+        }
+        case 'node': {
+          validateNode(context, selection);
+          break;
+        }
+        default: {
+          reportError(
+            context,
+            selection,
+            `Unknown field "${selection.name.value}" in permission query, expected "scope" or "node"`,
+          );
+        }
+      }
+    }
+
+    if (scopeCount !== 1) {
+      reportError(context, definition, 'Permission query has to contain exactly one "scope" field');
+    }
+  }
+}
+
+/**
+ * Validates the arguments of the scope field: scope(role: ADMIN, operations: [READ], fields: ["id"])
+ *
+ * @param context
+ * @param field
+ */
+function validateScope(context: IPermissionContext, field: FieldNode) {
+  const args = field.arguments || [];
+  if (!args.some((arg) => arg.name.value === 'role')) {
+    reportError(context, field, 'Missing argument "role" for permission scope');
+  }
+
+  for (const arg of args) {
+    switch (arg.name.value) {
+      case 'role': {
+        if (arg.value.kind !== Kind.ENUM || !context.roles.includes(arg.value.value)) {
+          reportError(
+            context,
+            arg.value,
+            `Invalid role "${print(arg.value)}", expected one of: ${context.roles.join(', ')}`,
+          );
+        }
+        break;
+      }
+      case 'operations': {
+        const values = arg.value.kind === Kind.LIST ? arg.value.values : [ arg.value ];
+        for (const value of values) {
+          if (value.kind !== Kind.ENUM || !PERMISSION_OPERATIONS.includes(value.value)) {
+            reportError(
+              context,
+              value,
+              `Invalid operation "${print(value)}", expected one of: ${PERMISSION_OPERATIONS.join(', ')}`,
+            );
+          }
+        }
+        break;
+      }
+      case 'fields': {
+        const values = arg.value.kind === Kind.LIST ? arg.value.values : [ arg.value ];
+        for (const value of values) {
+          if (value.kind !== Kind.STRING) {
+            reportError(context, value, `Invalid field name "${print(value)}", expected a string`);
+          } else if (context.type && !context.type.getFields()[value.value]) {
+            reportError(context, value, `Field "${value.value}" does not exist on type "${context.type.name}"`);
+          }
+        }
+        break;
+      }
+      default: {
+        reportError(context, arg, `Unknown argument "${arg.name.value}" for permission scope`);
+      }
+    }
+  }
+}
+
+/**
+ * Validates the arguments of the node field: node(filter: {...})
+ *
+ * @param context
+ * @param field
+ */
+function validateNode(context: IPermissionContext, field: FieldNode) {
+  for (const arg of field.arguments || []) {
+    if (arg.name.value !== 'filter') {
+      reportError(context, arg, `Unknown argument "${arg.name.value}" for permission node, expected "filter"`);
+    } else if (arg.value.kind !== Kind.OBJECT) {
+      reportError(context, arg.value, 'The node filter has to be an object');
+    } else if (context.type) {
+      validateFilter(context, arg.value, context.type);
+    }
+  }
+}
+
+/**
+ * Validates the filter fields against the fields of the type, recursively for related objects
+ *
+ * @param context
+ * @param filter
+ * @param type
+ */
+function validateFilter(
+  context: IPermissionContext,
+  filter: ObjectValueNode,
+  type: GraphQLObjectType | GraphQLInterfaceType,
+) {
+  const fields = type.getFields();
+  for (const filterField of filter.fields) {
+    const fieldName = filterField.name.value;
+    if (!fields[fieldName]) {
+      reportError(context, filterField, `Cannot filter by field "${fieldName}", it does not exist on type "${type.name}"`);
+      continue;
+    }
+    if (filterField.value.kind !== Kind.OBJECT) {
+      continue;
+    }
+
+    const fieldType = getNamedType(fields[fieldName].type);
+    if (isObjectType(fieldType) || isInterfaceType(fieldType)) {
+      validateFilter(context, filterField.value, fieldType);
+      continue;
+    }
+
+    // Check operators against the filter input type of the scalar (StringFilter, IDFilter etc.)
+    const filterType = context.schema.getType(`${fieldType.name}Filter`);
+    if (isInputObjectType(filterType)) {
+      const operators = filterType.getFields();
+      for (const operator of filterField.value.fields) {
+        if (!operators[operator.name.value]) {
+          reportError(
+            context,
+            operator,
+            `Unknown filter operator "${operator.name.value}" for field "${type.name}.${fieldName}"`,
+          );
+        }
+      }
+    }
+  }
+}
+
+function reportError(context: IPermissionContext, node: ASTNode, message: string) {
+  context.errors.push(new ValidationError(message, {
+    location: {
+      file: context.source.name,
+      ...(node.loc ? getLocation(context.source, node.loc.start) : {}),
+    },
+  }));
+}
@@ -14,75 +14,164 @@ import {
 import {
   PRIVATE_MODULE_NAME_REGEX,
 } from './constants';
-import ValidationError from './ValidationError';
+import ValidationError, {IValidationErrorLocation} from './ValidationError';
 const readFile = promisify(fs.readFile) as Function; // tslint:disable-line
 import {
   buildASTSchema,
   buildSchema,
+  concatAST,
+  DocumentNode,
+  extendSchema,
+  GraphQLError,
+  GraphQLSchema,
+  isTypeSystemExtensionNode,
   Kind,
-  parse, print, printSchema, validateSchema as graphqlValidateSchema,
+  parse, print, printSchema, Source, validateSchema as graphqlValidateSchema,
 } from 'graphql';
 import {RenameRootFields, RenameTypes, transformSchema} from 'graphql-tools';
+// validateSDL is internal in graphql 14, but the only way to get all SDL errors with their locations.
+// The graphql version is pinned in the package.json, because the internal API can change in any release
+import {validateSDL} from 'graphql/validation/validate';
 import _ from 'lodash';
 
-async function validateSchema(projectDir: string, config: IProjectConfig): Promise<any> {
+async function validateSchema(projectDir: string, config: IProjectConfig): Promise<ValidationError[]> {
   try {
-    const modulePaths = Object.keys(config.dependencies)
-      .map((name) => {
-        const version = config.dependencies[name];
-        if (name.match(PRIVATE_MODULE_NAME_REGEX)) {
-          return path.resolve(path.join(projectDir, version));
-        }
+    const document = await loadProjectSchemaDocument(projectDir, config);
 
-        return path.join(projectDir, '.slicknode', 'cache', 'modules', name);
-      });
+    // Validate SDL separately, so we get the errors with locations in the module schemas
+    const sdlErrors = validateSDL(document);
+    if (sdlErrors.length) {
+      return sdlErrors.map((e) => new ValidationError(`Invalid schema: ${e.message}`, {
+        location: getGraphQLErrorLocation(e),
+      }));
+    }
 
-    const promises = modulePaths.map(async (modulePath) => {
-      let rawModuleSchema = '';
-      const schemaFile = path.join(modulePath, 'schema.graphql');
-      try {
-        rawModuleSchema = await readFile(schemaFile, 'utf8');
-      } catch (e) {
-        return '';
+    const schema = buildASTSchema(document, {assumeValidSDL: true});
+    const errors = graphqlValidateSchema(schema);
+
+    return errors.map((e) => new ValidationError(`Invalid schema: ${e.message}`, {
+      location: getGraphQLErrorLocation(e),
+    }));
+  } catch (e) {
+    return [
+      new ValidationError(`Invalid schema: ${e instanceof GraphQLError ? e.message : e.toString()}`, {
+        location: getGraphQLErrorLocation(e),
+      }),
+    ];
+  }
+}
+
+/**
+ * Loads the schemas of all modules in the project and merges them into one schema
+ * Throws an error if one of the module schemas cannot be parsed
+ *
+ * @param projectDir
+ * @param config
+ * @param fromCache Load private modules from the cache of the last deployed version
+ */
+export async function buildProjectSchema(
+  projectDir: string,
+  config: IProjectConfig,
+  fromCache: boolean = false,
+): Promise<GraphQLSchema> {
+  const document = await loadProjectSchemaDocument(projectDir, config, fromCache);
+
+  // Type extensions are ignored by buildASTSchema, so we add them in a second step
+  const schema = buildASTSchema(document);
+  const extensions = document.definitions.filter(isTypeSystemExtensionNode);
+  if (!extensions.length) {
+    return schema;
+  }
+  return extendSchema(schema, {kind: Kind.DOCUMENT, definitions: extensions});
+}
+
+/**
+ * Returns the location of the first node of a GraphQL error if it has a source
+ *
+ * @param error
+ */
+export function getGraphQLErrorLocation(error: Error): IValidationErrorLocation | undefined {
+  if (!(error instanceof GraphQLError) || !error.source || !error.locations || !error.locations.length) {
+    return undefined;
+  }
+
+  return {
+    file: error.source.name,
+    ...error.locations[0],
+  };
+}
+
+/**
+ * Loads the schemas of all modules and merges them into one document. The nodes keep
+ * the location in the schema.graphql file of the module
+ *
+ * @param projectDir
+ * @param config
+ * @param fromCache
+ */
+async function loadProjectSchemaDocument(
+  projectDir: string,
+  config: IProjectConfig,
+  fromCache: boolean = false,
+): Promise<DocumentNode> {
+  const modulePaths = Object.keys(config.dependencies)
+    .map((name) => {
+      const version = config.dependencies[name];
+      if (name.match(PRIVATE_MODULE_NAME_REGEX) && !fromCache) {
+        return path.resolve(path.join(projectDir, version));
       }
 
-      // Read schema config
-      let moduleConfig;
+      return path.join(projectDir, '.slicknode', 'cache', 'modules', name);
+    });
+
+  const promises = modulePaths.map(async (modulePath) => {
+    let rawModuleSchema = '';
+    const schemaFile = path.join(modulePath, 'schema.graphql');
+    try {
+      rawModuleSchema = await readFile(schemaFile, 'utf8');
+    } catch (e) {
+      return null;
+    }
+
+    // Read schema config
+    let moduleConfig;
+    try {
+      const configFile = path.join(modulePath, 'slicknode.yml');
+      const rawModuleConfig = await readFile(configFile, 'utf8');
+      moduleConfig = yaml.safeLoad(rawModuleConfig);
+    } catch (e) {
+      moduleConfig = null;
+    }
+
+    // Parse partial schema, so we can display path to .graphql file
+    if (rawModuleSchema.trim()) {
       try {
-        const configFile = path.join(modulePath, 'slicknode.yml');
-        const rawModuleConfig = await readFile(configFile, 'utf8');
-        moduleConfig = yaml.safeLoad(rawModuleConfig);
-      } catch (e) {
-        moduleConfig = null;
-      }
+        // Parse to see if is valid GraphQL document
+        const document = parse(new Source(rawModuleSchema, schemaFile));
 
-      // Parse partial schema, so we can display path to .graphql file
-      if (rawModuleSchema) {
-        try {
-          // Parse to see if is valid GraphQL document
-          parse(rawModuleSchema);
-
-          // Add namespace to types / root fields if we have remote module
-          if (_.get(moduleConfig, 'module.remote')) {
-            return transformRemoteSchema(rawModuleSchema, _.get(moduleConfig, 'module.namespace'));
-          }
-        } catch (e) {
-          throw new Error(`Could not parse GraphQL schema ${path.relative(projectDir, schemaFile)}: ${e.message}`);
+        // Add namespace to types / root fields if we have remote module
+        // The transformed schema has no locations that match the schema.graphql file
+        if (_.get(moduleConfig, 'module.remote')) {
+          return parse(
+            transformRemoteSchema(rawModuleSchema, _.get(moduleConfig, 'module.namespace')),
+            {noLocation: true},
+          );
         }
+        return document;
+      } catch (e) {
+        throw new GraphQLError(
+          `Could not parse GraphQL schema ${path.relative(projectDir, schemaFile)}: ${e.message}`,
+          undefined,
+          e.source,
+          e.positions,
+        );
       }
-      return rawModuleSchema;
-    });
-    const loadedSchemas = await Promise.all(promises);
-    const rawSchema = loadedSchemas.join('\n');
+    }
+    return null;
+  });
+  const loadedDocuments = await Promise.all(promises);
 
-    const ast = parse(rawSchema);
-    const schema = buildASTSchema(ast);
-    const errors = graphqlValidateSchema(schema);
-
-    return errors.map((e) => new ValidationError(`Invalid schema: ${e.message}`));
-  } catch (e) {
-    return [ new ValidationError(`Invalid schema: ${e.toString()}`) ];
-  }
+  return concatAST(loadedDocuments.filter((document) => document) as DocumentNode[]);
 }
 
 /**
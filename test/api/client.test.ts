@@ -0,0 +1,116 @@
+import {expect} from 'chai';
+import FormData from 'form-data';
+import http from 'http';
+import net, {AddressInfo} from 'net';
+import {MemoryStorage, REFRESH_TOKEN_MUTATION} from 'slicknode-client';
+import ApiClient from '../../src/api/client';
+import {createFetch} from '../../src/api/http';
+
+const ENDPOINT = 'http://localhost/graphql';
+
+function fetchStub(calls: any[], data: any = {data: {ok: true}}): any {
+  return async (url: string, init: any) => {
+    calls.push({url, init});
+    return {json: async () => data};
+  };
+}
+
+describe('api client', () => {
+  it('Sends queries with the fetch function of the HTTP layer', async () => {
+    const calls: any[] = [];
+    const client = new ApiClient({
+      endpoint: ENDPOINT,
+      accessToken: 'token123',
+      headers: {'User-Agent': 'test'},
+      fetch: fetchStub(calls),
+    });
+    const result = await client.fetch('query Test {ok}', {id: '1'});
+    expect(result).to.deep.equal({data: {ok: true}});
+    expect(calls.length).to.equal(1);
+    expect(calls[0].url).to.equal(ENDPOINT);
+    expect(calls[0].init.method).to.equal('POST');
+    expect(calls[0].init.headers).to.deep.equal({
+      'Authorization': 'Bearer token123',
+      'User-Agent': 'test',
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    });
+    expect(JSON.parse(calls[0].init.body)).to.deep.equal({query: 'query Test {ok}', variables: {id: '1'}});
+  });
+
+  it('Sends files as multipart request', async () => {
+    const calls: any[] = [];
+    const client = new ApiClient({endpoint: ENDPOINT, accessToken: 'token123', fetch: fetchStub(calls)});
+    await client.fetch('mutation {upload}', {}, null, {file: Buffer.from('content')});
+    expect(calls[0].init.body).to.be.instanceOf(FormData);
+    expect(calls[0].init.headers).to.not.have.property('Content-Type');
+  });
+
+  it('Uses refresh token of the options without expiry', async () => {
+    const calls: any[] = [];
+    const client = new ApiClient({
+      endpoint: ENDPOINT,
+      refreshToken: 'refreshtoken',
+      storage: new MemoryStorage(),
+      fetch: async (url: string, init: any) => {
+        calls.push(JSON.parse(init.body));
+        if (calls.length === 1) {
+          return {json: async () => ({data: {refreshAuthToken: {
+            accessToken: 'refreshedtoken',
+            accessTokenLifetime: 3600,
+            refreshToken: 'newrefreshtoken',
+            refreshTokenLifetime: 7200,
+          }}})};
+        }
+        return {json: async () => ({data: {ok: true}})};
+      },
+    } as any);
+    expect(client.getRefreshTokenExpires()).to.equal(null);
+    expect(client.hasRefreshToken()).to.equal(true);
+    await client.fetch('{ok}');
+    expect(calls[0].query).to.equal(REFRESH_TOKEN_MUTATION);
+    expect(calls[0].variables).to.deep.equal({token: 'refreshtoken'});
+    expect(client.getAccessToken()).to.equal('refreshedtoken');
+    expect(client.getRefreshToken()).to.equal('newrefreshtoken');
+  });
+
+  it('Sends requests through proxy', async () => {
+    const requests: string[] = [];
+    const server = http.createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({data: {ok: true}}));
+    });
+    const connections: string[] = [];
+    const proxy = http.createServer();
+    proxy.on('connect', (req: http.IncomingMessage, socket: net.Socket) => {
+      connections.push(req.url!);
+      const [ host, port ] = req.url!.split(':');
+      const target = net.connect(Number(port), host, () => {
+        socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        target.pipe(socket);
+        socket.pipe(target);
+      });
+    });
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    await new Promise((resolve) => proxy.listen(0, '127.0.0.1', resolve));
+    const env = process.env;
+    process.env = {...env, NO_PROXY: '', no_proxy: ''};
+    try {
+      const serverPort = (server.address() as AddressInfo).port;
+      const proxyPort = (proxy.address() as AddressInfo).port;
+      const client = new ApiClient({
+        endpoint: `http://127.0.0.1:${serverPort}/graphql`,
+        accessToken: 'token123',
+        fetch: createFetch({proxy: `http://127.0.0.1:${proxyPort}`}),
+      });
+      expect(await client.fetch('{ok}')).to.deep.equal({data: {ok: true}});
+      expect(connections).to.deep.equal([ `127.0.0.1:${serverPort}` ]);
+      expect(requests).to.deep.equal([ 'POST /graphql' ]);
+    } finally {
+      process.env = env;
+      server.close();
+      proxy.close();
+    }
+  });
+});
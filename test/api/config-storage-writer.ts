@@ -0,0 +1,9 @@
+/**
+ * Writes values to a config storage from a separate process, to test parallel writes
+ */
+import ConfigStorage from '../../src/api/config-storage';
+
+const [ file, prefix, count ] = process.argv.slice(2);
+for (let i = 0; i < Number(count); i++) {
+  new ConfigStorage(file).setItem(`${prefix}${i}`, String(i));
+}
@@ -3,10 +3,29 @@
  */
 
 import {expect} from 'chai';
+import {fork} from 'child_process';
+import * as fs from 'fs';
+import {removeSync} from 'fs-extra';
 import * as os from 'os';
 import * as path from 'path';
+import sinon from 'sinon';
 import ConfigStorage from '../../src/api/config-storage';
 
+const TEST_DIR = path.join(os.tmpdir(), 'slicknode-config-storage-test');
+const TEST_FILE = path.join(TEST_DIR, 'auth.json');
+
+/**
+ * Writes values in a separate process
+ */
+function writeInProcess(prefix: string, count: number): Promise<number> {
+  return new Promise((resolve) => {
+    fork(path.join(__dirname, 'config-storage-writer.ts'), [ TEST_FILE, prefix, String(count) ], {
+      execArgv: [ '--require', 'ts-node/register' ],
+      env: {...process.env, TS_NODE_TRANSPILE_ONLY: 'true'},
+    }).on('exit', resolve);
+  });
+}
+
 const storage = new ConfigStorage(path.join(os.tmpdir(), 'slicknode', 'ConfigStorage-test'));
 
 describe('api ConfigStorage', () => {
@@ -23,4 +42,83 @@ describe('api ConfigStorage', () => {
     storage.removeItem('test:name2');
     expect(storage.getItem('test:name2')).to.equal(null);
   });
+
+  describe('file handling', () => {
+    beforeEach(() => removeSync(TEST_DIR));
+    after(() => removeSync(TEST_DIR));
+
+    it('Writes files only readable by the user', function() {
+      if (process.platform === 'win32') {
+        this.skip();
+      }
+      new ConfigStorage(TEST_FILE).setItem('refreshToken', 'secret');
+      expect(fs.statSync(TEST_FILE).mode & 0o777).to.equal(0o600);
+    });
+
+    it('Leaves no temporary or lock files', () => {
+      const testStorage = new ConfigStorage(TEST_FILE);
+      testStorage.setItem('a', '1');
+      testStorage.removeItem('a');
+      testStorage.setItem('b', '2');
+      expect(fs.readdirSync(TEST_DIR)).to.deep.equal([ 'auth.json' ]);
+      expect(JSON.parse(fs.readFileSync(TEST_FILE, 'utf8'))).to.deep.equal({b: '2'});
+    });
+
+    it('Recovers from corrupt file', () => {
+      fs.mkdirSync(TEST_DIR);
+      fs.writeFileSync(TEST_FILE, '{"refreshToken": "sec');
+      const testStorage = new ConfigStorage(TEST_FILE);
+      const stderrWrite = sinon.stub(process.stderr, 'write');
+      try {
+        expect(testStorage.getItem('refreshToken')).to.equal(null);
+        expect(stderrWrite.firstCall.args[0]).to.contain('was corrupt and has been reset');
+      } finally {
+        stderrWrite.restore();
+      }
+      testStorage.setItem('refreshToken', 'new');
+      expect(new ConfigStorage(TEST_FILE).getItem('refreshToken')).to.equal('new');
+
+      const backups = fs.readdirSync(TEST_DIR).filter((name) => name.startsWith('auth.json.corrupt-'));
+      expect(backups.length).to.equal(1);
+      expect(fs.readFileSync(path.join(TEST_DIR, backups[0]), 'utf8')).to.equal('{"refreshToken": "sec');
+    });
+
+    it('Removes stale locks', () => {
+      fs.mkdirSync(TEST_DIR);
+      fs.writeFileSync(`${TEST_FILE}.lock`, '');
+      const lockTime = new Date(Date.now() - 60000);
+      fs.utimesSync(`${TEST_FILE}.lock`, lockTime, lockTime);
+      new ConfigStorage(TEST_FILE).setItem('a', '1');
+      expect(fs.readdirSync(TEST_DIR)).to.deep.equal([ 'auth.json' ]);
+    });
+
+    it('Restores lock that replaced the stale lock before the takeover', () => {
+      fs.mkdirSync(TEST_DIR);
+      fs.writeFileSync(`${TEST_FILE}.lock`, 'other');
+      (new ConfigStorage(TEST_FILE) as any).removeStaleLock(`${TEST_FILE}.lock`);
+      expect(fs.readdirSync(TEST_DIR)).to.deep.equal([ 'auth.json.lock' ]);
+      expect(fs.readFileSync(`${TEST_FILE}.lock`, 'utf8')).to.equal('other');
+    });
+
+    it('Does not remove locks of other processes', () => {
+      fs.mkdirSync(TEST_DIR);
+      const testStorage = new ConfigStorage(TEST_FILE);
+      testStorage.setItem('a', '1');
+
+      // Lock that was created by another process after a takeover
+      fs.writeFileSync(`${TEST_FILE}.lock`, 'other');
+      (testStorage as any).releaseLock();
+      expect(fs.readFileSync(`${TEST_FILE}.lock`, 'utf8')).to.equal('other');
+    });
+
+    it('Keeps values of parallel processes', async function() {
+      this.timeout(60000);
+      const codes = await Promise.all([
+        writeInProcess('a', 20),
+        writeInProcess('b', 20),
+      ]);
+      expect(codes).to.deep.equal([ 0, 0 ]);
+      expect(Object.keys(new ConfigStorage(TEST_FILE).getValues()).length).to.equal(40);
+    });
+  });
 });
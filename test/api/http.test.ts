@@ -0,0 +1,104 @@
+import {expect} from 'chai';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import {HttpsProxyAgent} from 'https-proxy-agent';
+import net, {AddressInfo} from 'net';
+import os from 'os';
+import path from 'path';
+import {createFetch, getProxyUrl} from '../../src/api/http';
+
+const PROXY = 'http://proxy.local:3128';
+
+describe('api http', () => {
+  describe('getProxyUrl', () => {
+    it('Uses proxy setting', () => {
+      expect(getProxyUrl('https://api.slicknode.com/', {proxy: PROXY}, {})).to.equal(PROXY);
+      expect(getProxyUrl('http://localhost:3000/', {proxy: PROXY}, {})).to.equal(PROXY);
+    });
+
+    it('Uses proxy of environment variables', () => {
+      const env = {HTTPS_PROXY: PROXY, http_proxy: 'http://http-proxy.local'};
+      expect(getProxyUrl('https://api.slicknode.com/', {}, env)).to.equal(PROXY);
+      expect(getProxyUrl('http://api.slicknode.com/', {}, env)).to.equal('http://http-proxy.local');
+      expect(getProxyUrl('https://api.slicknode.com/', {}, {})).to.equal(null);
+    });
+
+    it('Excludes hosts of NO_PROXY', () => {
+      const env = {HTTPS_PROXY: PROXY, NO_PROXY: 'localhost, .internal.com,example.com:8443'};
+      expect(getProxyUrl('https://localhost/', {}, env)).to.equal(null);
+      expect(getProxyUrl('https://api.internal.com/', {}, env)).to.equal(null);
+      expect(getProxyUrl('https://internal.com/', {}, env)).to.equal(null);
+      expect(getProxyUrl('https://example.com:8443/', {}, env)).to.equal(null);
+      expect(getProxyUrl('https://example.com/', {}, env)).to.equal(PROXY);
+      expect(getProxyUrl('https://notinternal.com/', {}, env)).to.equal(PROXY);
+      expect(getProxyUrl('https://api.slicknode.com/', {proxy: PROXY}, {NO_PROXY: '*'})).to.equal(null);
+    });
+  });
+
+  describe('createFetch', () => {
+    let env: NodeJS.ProcessEnv;
+    beforeEach(() => {
+      env = process.env;
+      process.env = {...env, NO_PROXY: '', no_proxy: ''};
+    });
+    afterEach(() => {
+      process.env = env;
+    });
+
+    it('Applies agent and timeout to requests', async () => {
+      const calls: any[] = [];
+      const fetch = createFetch({proxy: PROXY, timeout: 1000}, async (url, init) => calls.push({url, init}));
+      await fetch('https://api.slicknode.com/', {method: 'POST'});
+      await fetch('https://registry.npmjs.org/slicknode');
+      expect(calls[0].init.agent).to.be.instanceOf(HttpsProxyAgent);
+      expect(calls[0].init.timeout).to.equal(1000);
+      expect(calls[0].init.method).to.equal('POST');
+      expect(calls[1].init.agent).to.equal(calls[0].init.agent);
+    });
+
+    it('Trusts certificates of CA bundle', async () => {
+      const caFile = path.join(os.tmpdir(), 'slicknode-http-test-ca.pem');
+      fs.writeFileSync(caFile, 'TEST CERTIFICATE');
+      const calls: any[] = [];
+      const fetch = createFetch({caFile}, async (url, init) => calls.push({url, init}));
+      await fetch('https://api.slicknode.com/');
+      expect(calls[0].init.agent).to.be.instanceOf(https.Agent);
+      expect(calls[0].init.agent.options.ca).to.include('TEST CERTIFICATE');
+    });
+
+    it('Throws error for missing CA bundle', () => {
+      expect(() => createFetch({caFile: '/not/existing/ca.pem'})).to.throw(
+        'Could not read CA bundle file "/not/existing/ca.pem"',
+      );
+    });
+
+    it('Sends requests through proxy', async () => {
+      const server = http.createServer((req, res) => res.end('ok'));
+      const connections: string[] = [];
+      const proxy = http.createServer();
+      proxy.on('connect', (req: http.IncomingMessage, socket: net.Socket) => {
+        connections.push(req.url!);
+        const [ host, port ] = req.url!.split(':');
+        const target = net.connect(Number(port), host, () => {
+          socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+          target.pipe(socket);
+          socket.pipe(target);
+        });
+      });
+      await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+      await new Promise((resolve) => proxy.listen(0, '127.0.0.1', resolve));
+      try {
+        const serverPort = (server.address() as AddressInfo).port;
+        const proxyPort = (proxy.address() as AddressInfo).port;
+        const fetch = createFetch({proxy: `http://127.0.0.1:${proxyPort}`});
+        const response = await fetch(`http://127.0.0.1:${serverPort}/`);
+        expect(await response.text()).to.equal('ok');
+        expect(connections).to.deep.equal([ `127.0.0.1:${serverPort}` ]);
+      } finally {
+        server.close();
+        proxy.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import {expect} from 'chai';
+import {
+  getEnvironmentSettings,
+  getSettingEnvName,
+  getSettings,
+  parseProjectSettings,
+  parseSettingValue,
+} from '../../src/api/settings';
+
+describe('api settings', () => {
+  it('Parses values of settings', () => {
+    expect(parseSettingValue('timeout', '30000')).to.equal(30000);
+    expect(parseSettingValue('disableUpdateCheck', 'true')).to.equal(true);
+    expect(parseSettingValue('color', 'false')).to.equal(false);
+    expect(parseSettingValue('proxy', 'http://proxy.local:3128')).to.equal('http://proxy.local:3128');
+  });
+
+  it('Throws error for invalid values', () => {
+    expect(() => parseSettingValue('timeout', 'abc')).to.throw(
+      'Invalid value for setting "timeout": "timeout" must be a number',
+    );
+    expect(() => parseSettingValue('color', 'yes')).to.throw(
+      'Invalid value for setting "color": "color" must be a boolean',
+    );
+    expect(() => parseSettingValue('defaultEnv', 'Prod')).to.throw(
+      'Invalid value for setting "defaultEnv"',
+    );
+  });
+
+  it('Returns valid settings of stored values', () => {
+    expect(getSettings({
+      endpoint: 'http://localhost',
+      timeout: '1000',
+      color: 'invalid',
+      profile: 'client-a',
+      latestVersion: '1.0.0',
+    })).to.deep.equal({
+      endpoint: 'http://localhost',
+      timeout: 1000,
+    });
+  });
+
+  it('Returns settings of environment variables', () => {
+    expect(getSettingEnvName('disableUpdateCheck')).to.equal('SLICKNODE_DISABLE_UPDATE_CHECK');
+    expect(getEnvironmentSettings({
+      SLICKNODE_ENDPOINT: 'http://localhost',
+      SLICKNODE_DEFAULT_ENV: 'staging',
+      SLICKNODE_PROXY: '',
+      SLICKNODE_ENV: 'production',
+    })).to.deep.equal({
+      endpoint: 'http://localhost',
+      defaultEnv: 'staging',
+    });
+  });
+
+  it('Validates project settings', () => {
+    expect(parseProjectSettings({defaultAccount: 'my-company', timeout: 1000})).to.deep.equal({
+      defaultAccount: 'my-company',
+      timeout: 1000,
+    });
+    expect(() => parseProjectSettings({caFile: '/etc/ca.pem'})).to.throw('"caFile" is not allowed');
+    expect(() => parseProjectSettings({endpoint: 'https://slicknode.my-company.com/'}))
+      .to.throw('"endpoint" is not allowed');
+  });
+});
@@ -0,0 +1,190 @@
+import {expect, test} from '../../test';
+import path from 'path';
+import fs from 'fs';
+import yaml from 'js-yaml';
+import {CLONE_PROJECT_BY_ALIAS_QUERY, CLONE_PROJECT_BY_ID_QUERY} from '../../../src/commands/clone';
+
+function projectPath(name: string) {
+  return path.join(__dirname, 'testprojects', name);
+}
+
+const PROJECT = {
+  id: 'UHJvamVjdDoy',
+  alias: 'test-project',
+  name: 'Test project',
+  endpoint: 'http://test-project.dev.slicknode.local:30081',
+  version: {
+    id: 'UHJvamVjdFZlcnNpb246Mg',
+    bundle: 'http://localhost/clonebundle.zip',
+  },
+};
+
+describe('clone', () => {
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .nock(
+      'http://localhost',
+      loader => loader.get('/clonebundle.zip').replyWithFile(200, path.join(__dirname, 'testprojects', 'clonebundle.zip'))
+    )
+    .nock(
+      'http://localhost',
+      loader => loader.get('/repository/core').reply(200, require('./fixtures/modules/core.json'))
+    )
+    .nock(
+      'http://localhost',
+      loader => loader.get('/repository/core.zip').replyWithFile(200, path.join(__dirname, 'fixtures', 'modules', 'core_0.0.1.zip'))
+    )
+    .api(CLONE_PROJECT_BY_ALIAS_QUERY, {data: {
+      registryUrl: 'http://localhost/repository/',
+      project: PROJECT,
+    }})
+    .workspaceCommand(projectPath('empty'), ['clone', 'test-project'])
+    .it('clones project into directory of project alias', ctx => {
+      expect(ctx.stdout).to.contain('The project Test project was cloned into');
+      const projectDir = path.join(ctx.workspace!, 'test-project');
+
+      const slicknoderc = JSON.parse(fs.readFileSync(path.join(projectDir, '.slicknoderc'), 'utf8'));
+      expect(slicknoderc).to.deep.equal({
+        default: {
+          endpoint: 'http://test-project.dev.slicknode.local:30081',
+          version: 'UHJvamVjdFZlcnNpb246Mg',
+          alias: 'test-project',
+          name: 'Test project',
+          id: 'UHJvamVjdDoy',
+        },
+      });
+
+      expect(yaml.safeLoad(fs.readFileSync(path.join(projectDir, 'slicknode.yml'), 'utf8'))).to.deep.equal({
+        dependencies: {
+          '@private/test-app': './modules/test-app',
+          core: 'latest',
+        },
+      });
+      expect(fs.existsSync(path.join(projectDir, 'modules', 'test-app', 'schema.graphql'))).to.equal(true);
+      expect(fs.existsSync(
+        path.join(projectDir, '.slicknode', 'cache', 'modules', 'core', 'schema.graphql'),
+      )).to.equal(true);
+      expect(fs.readFileSync(path.join(projectDir, '.gitignore'), 'utf8')).to.contain('.slicknode');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .nock(
+      'http://localhost',
+      loader => loader.get('/clonebundle.zip').replyWithFile(200, path.join(__dirname, 'testprojects', 'clonebundle.zip'))
+    )
+    .nock(
+      'http://localhost',
+      loader => loader.get('/repository/core').reply(200, require('./fixtures/modules/core.json'))
+    )
+    .nock(
+      'http://localhost',
+      loader => loader.get('/repository/core.zip').replyWithFile(200, path.join(__dirname, 'fixtures', 'modules', 'core_0.0.1.zip'))
+    )
+    .api(CLONE_PROJECT_BY_ID_QUERY, {data: {
+      registryUrl: 'http://localhost/repository/',
+      project: PROJECT,
+    }})
+    .workspaceCommand(projectPath('empty'), ['clone', 'UHJvamVjdDoy', 'my-project', '--env', 'production'])
+    .it('clones project by ID into directory with environment name', ctx => {
+      const slicknoderc = JSON.parse(
+        fs.readFileSync(path.join(ctx.workspace!, 'my-project', '.slicknoderc'), 'utf8'),
+      );
+      expect(Object.keys(slicknoderc)).to.deep.equal([ 'production' ]);
+      expect(slicknoderc.production.alias).to.equal('test-project');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(CLONE_PROJECT_BY_ALIAS_QUERY, {data: {
+      registryUrl: 'http://localhost/repository/',
+      project: null,
+    }})
+    .workspaceCommand(projectPath('empty'), ['clone', 'unknown-project'])
+    .catch(/The project "unknown-project" does not exist/)
+    .it('fails for unknown project', ctx => {
+      expect(fs.existsSync(path.join(ctx.workspace!, 'unknown-project'))).to.equal(false);
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(CLONE_PROJECT_BY_ALIAS_QUERY, {data: {
+      registryUrl: 'http://localhost/repository/',
+      project: {
+        ...PROJECT,
+        version: null,
+      },
+    }})
+    .workspaceCommand(projectPath('empty'), ['clone', 'test-project'])
+    .catch(/Try to clone the project later/)
+    .it('fails for project without version', ctx => {
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(CLONE_PROJECT_BY_ALIAS_QUERY, {data: {
+      registryUrl: 'http://localhost/repository/',
+      project: PROJECT,
+    }})
+    .workspaceCommand(projectPath('empty'), ['clone', 'test-project', '.'])
+    .catch(/The directory already exists and is not empty/)
+    .it('fails for directory that is not empty', ctx => {
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('empty'), ['clone', 'test-project', '--env', 'Production'])
+    .catch(/The environment name "Production" is invalid/)
+    .it('fails for invalid environment name', ctx => {
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(CLONE_PROJECT_BY_ID_QUERY, {data: {
+      registryUrl: 'http://localhost/repository/',
+      project: {
+        ...PROJECT,
+        alias: null,
+      },
+    }})
+    .workspaceCommand(projectPath('empty'), ['clone', 'UHJvamVjdDoy'])
+    .catch(/The project does not have an alias, provide the target directory/)
+    .it('fails for project without alias and directory', ctx => {
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .nock(
+      'http://localhost',
+      loader => loader.get('/clonebundle.zip').replyWithFile(200, path.join(__dirname, 'testprojects', 'clonebundle.zip'))
+    )
+    .nock(
+      'http://localhost',
+      loader => loader.get('/repository/core').reply(500, 'Server error')
+    )
+    .api(CLONE_PROJECT_BY_ALIAS_QUERY, {data: {
+      registryUrl: 'http://localhost/repository/',
+      project: PROJECT,
+    }})
+    .workspaceCommand(projectPath('empty'), ['clone', 'test-project'])
+    .catch(/Cloning project failed/)
+    .it('removes created directory if cloning fails', ctx => {
+      expect(fs.existsSync(path.join(ctx.workspace!, 'test-project'))).to.equal(false);
+    });
+});
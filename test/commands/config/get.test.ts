@@ -1,4 +1,5 @@
 import {expect, test} from '@oclif/test'
+import path from 'path';
 import ConfigStorage from '../../../src/api/config-storage';
 
 describe('config:get', () => {
@@ -10,4 +11,23 @@ describe('config:get', () => {
     .it('returns the current endpoint', ctx => {
       expect(ctx.stdout).to.equal('test\n');
     });
+
+  test
+    .stdout()
+    .timeout(20000)
+    .stub(ConfigStorage.prototype, 'getValues', () => ({}))
+    .command(['config:get', 'defaultEnv', '--dir', path.join(__dirname, 'testprojects', 'project-config')])
+    .it('returns the value of the project config', ctx => {
+      expect(ctx.stdout).to.equal('staging\n');
+    });
+
+  test
+    .stdout()
+    .timeout(20000)
+    .stub(ConfigStorage.prototype, 'getValues', () => ({endpoint: 'test'}))
+    .env({SLICKNODE_ENDPOINT: 'http://localhost:3000/'})
+    .command(['config:get', 'endpoint', '--dir', path.join(__dirname, 'testprojects', 'project-config')])
+    .it('returns the endpoint of the environment variable', ctx => {
+      expect(ctx.stdout).to.equal('http://localhost:3000/\n');
+    });
 });
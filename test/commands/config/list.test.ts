@@ -0,0 +1,58 @@
+import {expect, test} from '@oclif/test'
+import os from 'os';
+import path from 'path';
+import ConfigStorage from '../../../src/api/config-storage';
+
+function projectPath(name: string) {
+  return path.join(__dirname, 'testprojects', name);
+}
+
+describe('config:list', () => {
+  test
+    .stdout({stripColor: true})
+    .timeout(20000)
+    .stub(ConfigStorage.prototype, 'getValues', () => ({endpoint: 'test', timeout: 1000, color: false}))
+    .command(['config:list'])
+    .it('lists all settings', ctx => {
+      expect(ctx.stdout).to.contain('endpoint            test (invalid, ignored)\n');
+      expect(ctx.stdout).to.contain('proxy               (not set)\n');
+      expect(ctx.stdout).to.contain('timeout             1000\n');
+      expect(ctx.stdout).to.contain('color               false\n');
+      expect(ctx.stdout).to.contain('The timeout of HTTP requests in milliseconds');
+    });
+
+  test
+    .stdout({stripColor: true})
+    .timeout(20000)
+    .stub(ConfigStorage.prototype, 'getValues', () => ({timeout: 1000, defaultAccount: 'my-account'}))
+    .env({SLICKNODE_DEFAULT_ACCOUNT: 'ci-account'})
+    .command(['config:list', '--origin', '--dir', projectPath('project-config')])
+    .it('lists settings with origin', ctx => {
+      const userConfig = path.join(os.homedir(), '.slicknode', 'config.json');
+      const projectConfig = path.join(projectPath('project-config'), 'slicknode.config.yml');
+      expect(ctx.stdout).to.contain(`defaultEnv          staging  (${projectConfig})\n`);
+      expect(ctx.stdout).to.contain(`timeout             1000  (${userConfig})\n`);
+      expect(ctx.stdout).to.contain(
+        'defaultAccount      ci-account  (environment variable SLICKNODE_DEFAULT_ACCOUNT)\n',
+      );
+      expect(ctx.stdout).to.contain('proxy               (not set)\n');
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .timeout(20000)
+    .command(['config:list', '--dir', projectPath('invalid-project-config')])
+    .catch(/The slicknode\.config\.yml file has errors/)
+    .it('fails for invalid project config', ctx => {
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .timeout(20000)
+    .command(['config:list', '--dir', projectPath('endpoint-project-config')])
+    .catch(/"endpoint" is not allowed/)
+    .it('fails for endpoint in project config', ctx => {
+    });
+});
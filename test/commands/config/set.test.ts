@@ -15,4 +15,25 @@ describe('config:set', () => {
       expect(stub.called).to.equal(true);
       expect(stub.firstCall.args[0].endpoint).to.equal(TEST_URL);
     });
+
+  test
+    .stdout()
+    .timeout(20000)
+    .stub(ConfigStorage.prototype, 'setValues', sinon.stub())
+    .command(['config:set', 'timeout', '30000'])
+    .it('stores typed values', ctx => {
+      const stub = ConfigStorage.prototype.setValues as SinonStub;
+      expect(stub.firstCall.args[0].timeout).to.equal(30000);
+    });
+
+  test
+    .stdout()
+    .timeout(20000)
+    .stub(ConfigStorage.prototype, 'setValues', sinon.stub())
+    .command(['config:set', 'disableUpdateCheck', 'maybe'])
+    .catch('Invalid value for setting "disableUpdateCheck": "disableUpdateCheck" must be a boolean')
+    .it('fails for invalid values', ctx => {
+      const stub = ConfigStorage.prototype.setValues as SinonStub;
+      expect(stub.called).to.equal(false);
+    });
 });
@@ -0,0 +1,17 @@
+import {expect, test} from '@oclif/test'
+import ConfigStorage from '../../../src/api/config-storage';
+import sinon, {SinonStub} from 'sinon';
+
+describe('config:unset', () => {
+  test
+    .stdout()
+    .timeout(20000)
+    .stub(ConfigStorage.prototype, 'getValues', () => ({endpoint: 'test', proxy: 'http://localhost:3128'}))
+    .stub(ConfigStorage.prototype, 'setValues', sinon.stub())
+    .command(['config:unset', 'proxy'])
+    .it('removes the setting', ctx => {
+      expect(ctx.stdout).to.equal('');
+      const stub = ConfigStorage.prototype.setValues as SinonStub;
+      expect(stub.firstCall.args[0]).to.deep.equal({endpoint: 'test'});
+    });
+});
@@ -18,6 +18,7 @@ describe('delete', () => {
     });
 
   test
+    .login()
     .stdout({stripColor: true})
     .stderr({stripColor: true})
     .prompt([ 'test-ad2f5a5e_invalid' ])
@@ -1,11 +1,17 @@
 import {expect, test} from '../../test';
 import path from 'path';
 import {MIGRATE_PROJECT_MUTATION} from '../../../src/commands/status';
+import {BaseCommand} from '../../../src/base/base-command';
 import {CREATE_PROJECT_MUTATION, LIST_CLUSTER_QUERY} from '../../../src/commands/init';
 import listClusterResult from './list-cluster.json';
 import createProjectResult from './create-project.json';
 import {GET_REPOSITORY_URL_QUERY} from '../../../src/utils/pullDependencies';
+import {LOAD_PROJECT_BUNDLE_QUERY} from '../../../src/commands/pull';
 import * as nock from 'nock';
+import {readFileSync, writeFileSync} from 'fs';
+import {getBundleChecksum, packProject} from '../../../src/utils';
+import * as migration from '../../../src/utils/migration';
+import * as pullDependencies from '../../../src/utils/pullDependencies';
 
 function projectPath(name: string) {
   return path.join(__dirname, 'testprojects', name);
@@ -29,7 +35,7 @@ describe('deploy', () => {
     .stdout({stripColor: true})
     .stderr()
     .api(MIGRATE_PROJECT_MUTATION, {data: null, errors: [{message: 'No access'}]})
-    .command(['deploy', '--dir', projectPath('initialized')])
+    .workspaceCommand(projectPath('initialized'), ['deploy'], {setWorkspaceAsDir: true, moduleCache: true})
     .catch(/Error loading state from API: No access/)
     .it('fails for API load error', ctx => {
 
@@ -53,7 +59,7 @@ describe('deploy', () => {
       }
     }})
     .prompt([ false ])
-    .command(['deploy', '--dir', projectPath('initialized')])
+    .workspaceCommand(projectPath('initialized'), ['deploy'], {setWorkspaceAsDir: true, moduleCache: true})
     .it('displays single change', ctx => {
       expect(ctx.stdout).to.contain('1 pending change');
       expect(ctx.stdout).to.contain('Update permissions');
@@ -92,7 +98,7 @@ describe('deploy', () => {
       }
     }})
     .prompt([ false ])
-    .command(['deploy', '--dir', projectPath('initialized')])
+    .workspaceCommand(projectPath('initialized'), ['deploy'], {setWorkspaceAsDir: true, moduleCache: true})
     .it('displays multiple changes', ctx => {
       expect(ctx.stdout).to.contain('3 pending change');
       expect(ctx.stdout).to.contain('Update permissions');
@@ -103,6 +109,218 @@ describe('deploy', () => {
       expect(ctx.stdout).to.contain('add:');
     });
 
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(MIGRATE_PROJECT_MUTATION, {data: {
+      migrateProject: {
+        changes: [
+          {
+            type: 'REMOVE',
+            breaking: true,
+            path: ['types', 'User', 'fields', 'age'],
+            module: ['core'],
+            description: 'Remove field age',
+          },
+          {
+            type: 'ADD',
+            breaking: false,
+            path: ['types', 'User', 'fields', 'name'],
+            module: ['core'],
+            description: 'Add field name',
+          },
+        ]
+      }
+    }})
+    .workspaceCommand(
+      projectPath('initialized'),
+      ['deploy', '--fail-on-breaking'],
+      {setWorkspaceAsDir: true, moduleCache: true},
+    )
+    .catch(/The changes contain 1 breaking change/)
+    .it('fails for breaking changes with --fail-on-breaking', ctx => {
+      expect(ctx.stdout).to.contain('remove:  Remove field age [BREAKING]');
+      expect(ctx.stdout).to.contain('1 of the changes is breaking');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr()
+    .api(MIGRATE_PROJECT_MUTATION, {data: {
+      migrateProject: {
+        changes: [
+          {
+            type: 'REMOVE',
+            breaking: true,
+            path: ['types', 'User', 'fields', 'age'],
+            module: ['core'],
+            description: 'Remove field age',
+          },
+        ]
+      }
+    }})
+    .prompt([ false ])
+    .workspaceCommand(projectPath('initialized'), ['deploy', '--force'], {setWorkspaceAsDir: true, moduleCache: true})
+    .it('requires confirmation of breaking changes with --force', ctx => {
+      expect(ctx.stdout).to.contain('Deployment aborted');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr()
+    .stub(BaseCommand.prototype, 'isInteractive' as any, () => false)
+    .api(MIGRATE_PROJECT_MUTATION, {data: {
+      migrateProject: {
+        changes: [
+          {
+            type: 'REMOVE',
+            breaking: true,
+            path: ['types', 'User', 'fields', 'age'],
+            module: ['core'],
+            description: 'Remove field age',
+          },
+        ]
+      }
+    }})
+    .workspaceCommand(projectPath('initialized'), ['deploy', '--force'], {setWorkspaceAsDir: true, moduleCache: true})
+    .catch(/The changes contain 1 breaking change, use the --allow-breaking flag/)
+    .it('fails for breaking changes without --allow-breaking in non-interactive mode', ctx => {
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr()
+    .stub(BaseCommand.prototype, 'isInteractive' as any, () => false)
+    .api(MIGRATE_PROJECT_MUTATION, {data: {
+      migrateProject: {
+        changes: []
+      }
+    }})
+    .workspaceCommand(projectPath('initialized'), ['deploy'], {setWorkspaceAsDir: true, moduleCache: true})
+    .catch(/The deployment needs to be confirmed, use the --force flag/)
+    .it('requires --force in non-interactive mode', ctx => {
+    });
+
+  const planChange = {
+    type: 'ADD',
+    breaking: false,
+    path: ['types', 'User', 'fields', 'name'],
+    module: 'core',
+    description: 'Add field name',
+  };
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr()
+    .api(MIGRATE_PROJECT_MUTATION, {data: {migrateProject: {changes: [ planChange ]}}})
+    .tmpdir()
+    .do(async (ctx: {tmpdir: string}) => {
+      const checksum = getBundleChecksum(await packProject(projectPath('initialized')));
+      writeFileSync(path.join(ctx.tmpdir, 'plan.json'), JSON.stringify({
+        changes: [ planChange ],
+        checksum,
+        baseVersion: 'UHJvamVjdFZlcnNpb246Mg',
+      }));
+    })
+    .prompt([ false ])
+    .workspaceCommand(
+      projectPath('initialized'),
+      (ctx) => ['deploy', '--plan', path.join(ctx.tmpdir, 'plan.json')],
+      {moduleCache: true},
+    )
+    .it('deploys changes that match the plan', ctx => {
+      expect(ctx.stdout).to.contain('Add field name');
+      expect(ctx.stdout).to.contain('Deployment aborted');
+    });
+
+  const deployedConfigs: string[] = [];
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr()
+    .stub(migration, 'migrateProject', (async ({dryRun, bundle}: {dryRun: boolean, bundle: any}) => {
+      if (dryRun) {
+        // Change the project files after the dry run
+        writeFileSync(path.join(process.cwd(), 'slicknode.yml'), 'dependencies:\n  core: latest\n  image: latest\n');
+        return {data: {migrateProject: {changes: [ planChange ]}}};
+      }
+      deployedConfigs.push(bundle.readAsText('slicknode.yml'));
+      return {data: {migrateProject: {errors: [ {description: 'Deployment stopped', path: []} ]}}};
+    }) as any)
+    .tmpdir()
+    .do(async (ctx: {tmpdir: string}) => {
+      const checksum = getBundleChecksum(await packProject(projectPath('initialized')));
+      writeFileSync(path.join(ctx.tmpdir, 'plan.json'), JSON.stringify({
+        changes: [ planChange ],
+        checksum,
+        baseVersion: 'UHJvamVjdFZlcnNpb246Mg',
+      }));
+    })
+    .prompt([ true ])
+    .workspaceCommand(
+      projectPath('initialized'),
+      (ctx) => ['deploy', '--plan', path.join(ctx.tmpdir, 'plan.json')],
+      {moduleCache: true},
+    )
+    .it('deploys the bundle that was checked against the plan', ctx => {
+      expect(deployedConfigs).to.deep.equal([
+        readFileSync(path.join(projectPath('initialized'), 'slicknode.yml'), 'utf8'),
+      ]);
+      expect(ctx.stdout).to.contain('Deployment stopped');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr()
+    .api(MIGRATE_PROJECT_MUTATION, {data: {migrateProject: {changes: [ planChange ]}}})
+    .tmpdir()
+    .do((ctx: {tmpdir: string}) => {
+      writeFileSync(path.join(ctx.tmpdir, 'plan.json'), JSON.stringify({
+        changes: [ planChange ],
+        checksum: 'outdated',
+        baseVersion: 'UHJvamVjdFZlcnNpb246Mg',
+      }));
+    })
+    .workspaceCommand(
+      projectPath('initialized'),
+      (ctx) => ['deploy', '--plan', path.join(ctx.tmpdir, 'plan.json')],
+      {moduleCache: true},
+    )
+    .catch(/The project files have changed since the plan was created/)
+    .it('aborts deployment if project changed since plan was created', ctx => {
+
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr()
+    .api(MIGRATE_PROJECT_MUTATION, {data: {migrateProject: {changes: []}}})
+    .tmpdir()
+    .do(async (ctx: {tmpdir: string}) => {
+      const checksum = getBundleChecksum(await packProject(projectPath('initialized')));
+      writeFileSync(path.join(ctx.tmpdir, 'plan.json'), JSON.stringify({
+        changes: [ planChange ],
+        checksum,
+        baseVersion: 'UHJvamVjdFZlcnNpb246Mg',
+      }));
+    })
+    .workspaceCommand(
+      projectPath('initialized'),
+      (ctx) => ['deploy', '--plan', path.join(ctx.tmpdir, 'plan.json')],
+      {moduleCache: true},
+    )
+    .catch(/The pending changes are different from the changes in the plan/)
+    .it('aborts deployment if changes differ from plan', ctx => {
+
+    });
+
   test
     .login()
     .stdout({stripColor: true})
@@ -124,7 +342,7 @@ describe('deploy', () => {
       }
     }})
     .prompt([ true ])
-    .command(['deploy', '--dir', projectPath('initialized')])
+    .workspaceCommand(projectPath('initialized'), ['deploy'], {setWorkspaceAsDir: true, moduleCache: true})
     .catch(/Error loading project config from servers/)
     .it('fails when project bundle could not be loaded from server', ctx => {
 
@@ -155,11 +373,82 @@ describe('deploy', () => {
        loader => loader.get('/dummybundle.zip').replyWithFile(200, path.join(__dirname, 'testprojects', 'testbundle.zip'))
     )
     .prompt([ true ])
-    .workspaceCommand(projectPath('with-module'), ['deploy'])
+    .workspaceCommand(projectPath('with-module'), ['deploy'], {moduleCache: true})
     .it('migrates project successfully', ctx => {
       expect(ctx.stdout).to.contain('Deployment successful');
     });
 
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    // Deployed version check
+    .api(LOAD_PROJECT_BUNDLE_QUERY, {data: {
+      project: {
+        version: {
+          id: 'UHJvamVjdFZlcnNpb246Mg',
+          bundle: 'http://localhost/dummybundle.zip'
+        }
+      }
+    }})
+    // Dry run request
+    .api(MIGRATE_PROJECT_MUTATION, {data: {
+      migrateProject: {
+        changes: []
+      }
+    }})
+    // Actual migration
+    .api(MIGRATE_PROJECT_MUTATION, {data: {
+      migrateProject: {
+        node: {
+          version: {
+            id: 'UHJvamVjdFZlcnNpb246Mw',
+            bundle: 'http://localhost/dummybundle.zip'
+          }
+        }
+      }
+    }})
+    .nock(
+      'http://localhost',
+       loader => loader.get('/dummybundle.zip').replyWithFile(200, path.join(__dirname, 'testprojects', 'testbundle.zip'))
+    )
+    .prompt([ true ])
+    .workspaceCommand(projectPath('with-module'), ['deploy'], {moduleCache: true})
+    .it('stores deployed version in environment', ctx => {
+      expect(ctx.stdout).to.contain('Deployment successful');
+      expect(ctx.stderr).to.not.contain('deployed by someone else');
+      const slicknoderc = JSON.parse(readFileSync(path.join(ctx.workspace!, '.slicknoderc')).toString());
+      expect(slicknoderc.default.version).to.equal('UHJvamVjdFZlcnNpb246Mw');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    // Deployed version check
+    .api(LOAD_PROJECT_BUNDLE_QUERY, {data: {
+      project: {
+        version: {
+          id: 'UHJvamVjdFZlcnNpb246Mw',
+          bundle: 'http://localhost/dummybundle.zip'
+        }
+      }
+    }})
+    .nock(
+      'http://localhost',
+       loader => loader.get('/dummybundle.zip').replyWithFile(200, path.join(__dirname, 'testprojects', 'testbundle.zip'))
+    )
+    .stub(pullDependencies, 'pullDependencies', async () => {})
+    .prompt([ true ])
+    .workspaceCommand(projectPath('with-module'), ['deploy'], {moduleCache: true})
+    .it('aborts deployment after pulling the deployed version', ctx => {
+      expect(ctx.stderr).to.contain('deployed by someone else');
+      expect(ctx.stdout).to.contain('The latest changes were pulled from the server');
+      expect(ctx.stdout).to.not.contain('Deployment successful');
+      const slicknoderc = JSON.parse(readFileSync(path.join(ctx.workspace!, '.slicknoderc')).toString());
+      expect(slicknoderc.default.version).to.equal('UHJvamVjdFZlcnNpb246Mw');
+    });
+
   test
     .login()
     .stdout({stripColor: true})
@@ -187,7 +476,7 @@ describe('deploy', () => {
     )
     .api(CREATE_PROJECT_MUTATION, createProjectResult)
     .prompt([ true, true, true ])
-    .workspaceCommand(projectPath('with-module'), ['deploy', '--env', 'staging'])
+    .workspaceCommand(projectPath('with-module'), ['deploy', '--env', 'staging'], {moduleCache: true})
     .it('creates new project for unknown env', ctx => {
       expect(ctx.stdout).to.contain('Deployment successful');
     });
@@ -287,7 +576,7 @@ describe('deploy', () => {
     )
     // .api(CREATE_PROJECT_MUTATION, createProjectResult)
     .prompt([ true ])
-    .workspaceCommand(projectPath('single-missing-dependency'), ['deploy'])
+    .workspaceCommand(projectPath('single-missing-dependency'), ['deploy'], {moduleCache: true})
     .it('pulls missing dependencies on deployment for single missing dependency', ctx => {
       expect(ctx.stdout).to.contain('Deployment successful');
     });
@@ -305,10 +594,19 @@ describe('deploy', () => {
     .api(LIST_CLUSTER_QUERY, listClusterResult)
     .api(CREATE_PROJECT_MUTATION, createProjectResult)
     .prompt([ true, true, false ])
-    .workspaceCommand(projectPath('with-module'), ['deploy', '--env', 'staging'])
+    .workspaceCommand(projectPath('with-module'), ['deploy', '--env', 'staging'], {moduleCache: true})
     .it('aborts project deployment for new env on user input', ctx => {
       expect(ctx.stdout).to.contain('Deployment aborted');
     });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr()
+    .workspaceCommand(projectPath('with-module'), ['deploy', '--env', 'Staging', '--force'], {moduleCache: true})
+    .catch(/The environment name "Staging" is invalid/)
+    .it('fails for invalid environment name before creating project', ctx => {
+    });
 });
 
 function mockRegistryModule(name: string) {
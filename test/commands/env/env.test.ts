@@ -0,0 +1,233 @@
+import {expect, test} from '../../test';
+import path from 'path';
+import fs from 'fs';
+import ConfigStorage from '../../../src/api/config-storage';
+import {GET_PROJECT_BY_ALIAS_QUERY, GET_PROJECT_BY_ID_QUERY} from '../../../src/commands/env/add';
+
+function projectPath(name: string) {
+  return path.join(__dirname, 'testprojects', name);
+}
+
+function readEnvironments(dir: string) {
+  return JSON.parse(fs.readFileSync(path.join(dir, '.slicknoderc'), 'utf8'));
+}
+
+describe('env', () => {
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['env:list', '--dir', projectPath('empty')])
+    .it('shows message for project without environments', ctx => {
+      expect(ctx.stdout).to.contain('There are no environments created yet');
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['env:list', '--dir', projectPath('initialized')])
+    .it('lists environments', ctx => {
+      expect(ctx.stdout).to.contain('default (default)\n');
+      expect(ctx.stdout).to.contain('  Alias:    test-ad2f5a5e\n');
+      expect(ctx.stdout).to.contain('staging\n');
+      expect(ctx.stdout).to.contain('  Endpoint: http://test-staging.dev.slicknode.local:30081\n');
+      expect(ctx.stdout).to.contain('  Version:  UHJvamVjdFZlcnNpb246Mw\n');
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['env:list', '--dir', projectPath('yaml-config')])
+    .it('lists environments of .slicknoderc file in YAML format', ctx => {
+      expect(ctx.stdout).to.contain('default (default)\n');
+      expect(ctx.stdout).to.contain('  Alias:    test-ad2f5a5e\n');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(GET_PROJECT_BY_ALIAS_QUERY, {data: {
+      project: {
+        id: 'UHJvamVjdDo0',
+        alias: 'test-production',
+        name: 'test (production)',
+        endpoint: 'http://test-production.dev.slicknode.local:30081',
+        version: {
+          id: 'UHJvamVjdFZlcnNpb246NA',
+        },
+      },
+    }})
+    .workspaceCommand(projectPath('initialized'), ['env:add', 'production', 'test-production'])
+    .it('adds environment for existing project alias', ctx => {
+      expect(ctx.stdout).to.contain('Environment "production" was added for project test-production');
+      expect(readEnvironments(ctx.workspace!).production).to.deep.equal({
+        endpoint: 'http://test-production.dev.slicknode.local:30081',
+        version: 'UHJvamVjdFZlcnNpb246NA',
+        alias: 'test-production',
+        name: 'test (production)',
+        id: 'UHJvamVjdDo0',
+      });
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(GET_PROJECT_BY_ID_QUERY, {data: {project: null}})
+    .workspaceCommand(projectPath('initialized'), ['env:add', 'production', 'UHJvamVjdDo0'])
+    .catch(/The project "UHJvamVjdDo0" does not exist/)
+    .it('fails for unknown project ID', ctx => {
+      expect(readEnvironments(ctx.workspace!)).to.not.have.property('production');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('initialized'), ['env:add', 'staging', 'test-staging'])
+    .catch('The environment "staging" already exists')
+    .it('fails to add existing environment', ctx => {
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('initialized'), ['env:rename', 'staging', 'stage'])
+    .it('renames environment', ctx => {
+      expect(ctx.stdout).to.contain('Environment "staging" was renamed to "stage"');
+      const envMap = readEnvironments(ctx.workspace!);
+      expect(envMap).to.not.have.property('staging');
+      expect(envMap.stage.alias).to.equal('test-staging');
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('initialized'), ['env:rename', 'staging', 'Stage'])
+    .catch(/The environment name "Stage" is invalid/)
+    .it('fails to rename environment with invalid name', ctx => {
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('initialized'), ['env:remove', 'staging'])
+    .it('removes environment', ctx => {
+      expect(ctx.stdout).to.contain('Environment "staging" was removed');
+      expect(ctx.stdout).to.contain('The project test-staging still exists on the Slicknode servers');
+      expect(readEnvironments(ctx.workspace!)).to.not.have.property('staging');
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('initialized'), ['env:remove', 'unknown'])
+    .catch('The environment "unknown" does not exist')
+    .it('fails to remove unknown environment', ctx => {
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('initialized'), ['env:use', 'staging'])
+    .it('sets default environment', ctx => {
+      expect(ctx.stdout).to.contain('Environment "staging" is now used by default');
+      const envMap = readEnvironments(ctx.workspace!);
+      expect(envMap.staging.default).to.equal(true);
+      expect(envMap.default).to.not.have.property('default');
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('initialized'), ['env:use', 'staging'])
+    .command(['endpoint'])
+    .it('uses default environment in env commands', ctx => {
+      expect(ctx.stdout).to.contain('http://test-staging.dev.slicknode.local:30081\n');
+    });
+
+  test
+    .env({SLICKNODE_ENV: 'staging'})
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['endpoint', '--dir', projectPath('initialized')])
+    .it('uses environment of SLICKNODE_ENV variable', ctx => {
+      expect(ctx.stdout).to.equal('http://test-staging.dev.slicknode.local:30081\n');
+    });
+
+  test
+    .env({SLICKNODE_ENV: 'staging'})
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['endpoint', '--dir', projectPath('initialized'), '--env', 'default'])
+    .it('prefers env flag over SLICKNODE_ENV variable', ctx => {
+      expect(ctx.stdout).to.equal('http://test-ad2f5a5e.dev.slicknode.local:30081\n');
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('initialized'), ['env:use', 'staging'])
+    .env({SLICKNODE_ENV: 'default'})
+    .command(['endpoint'])
+    .it('prefers SLICKNODE_ENV variable over default environment', ctx => {
+      expect(ctx.stdout).to.contain('http://test-ad2f5a5e.dev.slicknode.local:30081\n');
+    });
+
+  test
+    .stub(ConfigStorage.prototype, 'getValues', () => ({defaultEnv: 'staging'}))
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['endpoint', '--dir', projectPath('initialized')])
+    .it('uses environment of defaultEnv setting', ctx => {
+      expect(ctx.stdout).to.equal('http://test-staging.dev.slicknode.local:30081\n');
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['env:list', '--dir', projectPath('invalid-json')])
+    .catch(/Could not parse \.slicknoderc file/)
+    .it('fails for .slicknoderc file with invalid JSON', ctx => {
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['env:list', '--dir', projectPath('invalid-values')])
+    .catch(/The \.slicknoderc file has errors/)
+    .it('reports invalid values in .slicknoderc file', ctx => {
+      expect(ctx.stderr).to.contain('Invalid values in .slicknoderc configuration');
+      expect(ctx.stderr).to.contain('Invalid value at path "default.endpoint"');
+      expect(ctx.stderr).to.contain('.slicknoderc:3:5');
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['env:list', '--dir', projectPath('legacy-name')])
+    .it('warns about environment names of previous versions', ctx => {
+      expect(ctx.stdout).to.contain('Staging\n');
+      expect(ctx.stderr).to.contain('The environment name "Staging" is invalid');
+      expect(ctx.stderr).to.contain('slicknode env:rename Staging <new-name>');
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('legacy-name'), ['env:rename', 'Staging', 'staging'])
+    .it('renames environment with name of previous versions', ctx => {
+      expect(ctx.stdout).to.contain('Environment "Staging" was renamed to "staging"');
+      const envMap = readEnvironments(ctx.workspace!);
+      expect(envMap).to.not.have.property('Staging');
+      expect(envMap.staging.alias).to.equal('test-staging');
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['endpoint', '--dir', projectPath('invalid-values')])
+    .catch(/The \.slicknoderc file has errors/)
+    .it('fails env commands for invalid .slicknoderc file', ctx => {
+    });
+});
@@ -142,6 +142,7 @@ describe('init', () => {
       createProject: {
         node: {
           id: '234',
+          alias: 'test-project',
           endpoint: 'http://testproject',
           name: 'TestName',
           version: {
@@ -161,6 +162,7 @@ describe('init', () => {
         default: {
           version: 'someid',
           id: '234',
+          alias: 'test-project',
           endpoint: 'http://testproject',
           name: 'TestName'
         },
@@ -219,6 +221,7 @@ describe('init', () => {
       createProject: {
         node: {
           id: '234',
+          alias: 'test-project',
           endpoint: 'http://testproject',
           name: 'TestName',
           version: {
@@ -238,6 +241,7 @@ describe('init', () => {
         default: {
           version: 'someid',
           id: '234',
+          alias: 'test-project',
           endpoint: 'http://testproject',
           name: 'TestName'
         },
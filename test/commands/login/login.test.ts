@@ -1,6 +1,12 @@
 import {expect, test} from '../../test';
 import * as auth from 'slicknode-auth-email-password';
+import fs from 'fs';
+import {removeSync} from 'fs-extra';
+import os from 'os';
+import path from 'path';
 
+const TEST_HOME = path.join(os.tmpdir(), 'slicknode-login-test');
+const AUTH_FILE = path.join(TEST_HOME, '.slicknode', 'auth.json');
 
 const LOGIN_MUTATION = `mutation LoginMutation(
   $email: String!,
@@ -16,6 +22,8 @@ const LOGIN_MUTATION = `mutation LoginMutation(
 
 describe('login', () => {
   test
+    .do(() => removeSync(TEST_HOME))
+    .stub(os, 'homedir', () => TEST_HOME)
     .stdout({stripColor: true})
     .stderr({stripColor: true})
     .stub(auth, 'default', () => () => Promise.resolve({
@@ -28,5 +36,9 @@ describe('login', () => {
     .command(['login'])
     .it('logs user in successfully', ctx => {
       expect(ctx.stdout).to.contain('Login successful!');
+      expect(JSON.parse(fs.readFileSync(AUTH_FILE, 'utf8'))).to.include({
+        'slicknode:auth:accessToken': 'sef',
+        'slicknode:auth:refreshToken': 'sef',
+      });
     });
 });
@@ -0,0 +1,41 @@
+import {expect, test} from '../../test';
+import fs from 'fs';
+import {mkdirpSync} from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+const TEST_HOME = path.join(os.tmpdir(), 'slicknode-logout-test');
+const AUTH_FILE = path.join(TEST_HOME, '.slicknode', 'auth.json');
+
+function writeAuthFile() {
+  mkdirpSync(path.dirname(AUTH_FILE));
+  fs.writeFileSync(AUTH_FILE, JSON.stringify({
+    ':auth:accessToken': '123',
+    ':auth:refreshToken': '456',
+  }));
+}
+
+describe('logout', () => {
+  test
+    .do(writeAuthFile)
+    .stub(os, 'homedir', () => TEST_HOME)
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['logout'])
+    .it('removes stored auth tokens', ctx => {
+      expect(ctx.stdout).to.contain('Logout successful');
+      expect(JSON.parse(fs.readFileSync(AUTH_FILE, 'utf8'))).to.deep.equal({});
+    });
+
+  test
+    .do(writeAuthFile)
+    .stub(os, 'homedir', () => TEST_HOME)
+    .env({SLICKNODE_ACCESS_TOKEN: 'envtoken'})
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['logout'])
+    .it('warns about tokens in environment variables', ctx => {
+      expect(JSON.parse(fs.readFileSync(AUTH_FILE, 'utf8'))).to.deep.equal({});
+      expect(ctx.stderr).to.contain('SLICKNODE_ACCESS_TOKEN');
+    });
+});
@@ -77,4 +77,54 @@ describe('module:add', () => {
     .catch(/Module "nonexistent" not found in registry/)
     .it('fails for non existent module', ctx => {
     });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api({
+      query: LIST_MODULES_QUERY,
+      variables: {modules: ['image', 'auth']}
+    }, {data: {listRegistryModule: {edges: [{node: {name: 'image'}}, {node: {name: 'auth'}}]}}})
+    .workspaceCommand(projectPath('base'), ['module:add', 'image@1.2.0', 'auth@^0.1.0'])
+    .it('adds module with version and updates version of installed module', ctx => {
+      expect(ctx.stdout).to.contain('Module "image" added - version: 1.2.0');
+      expect(ctx.stdout).to.contain('Module "auth" updated - version: ^0.1.0');
+      const config = yaml.safeLoad(
+        readFileSync(path.join(ctx.workspace!, 'slicknode.yml')).toString()
+      ) as any;
+      expect(config.dependencies.image).to.equal('1.2.0');
+      expect(config.dependencies.auth).to.equal('^0.1.0');
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('base'), ['module:add', 'image@next-version'])
+    .catch(/Invalid version "next-version" for module "image" provided/)
+    .it('fails for invalid module version', ctx => {
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('base'), ['module:add', 'image@1.2.0@2.0.0'])
+    .catch(/Invalid module "image@1.2.0@2.0.0" provided, use the format name@version/)
+    .it('fails for module with multiple versions', ctx => {
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api({
+      query: LIST_MODULES_QUERY,
+      variables: {modules: ['image']}
+    }, {data: {listRegistryModule: {edges: [{node: {name: 'image'}}]}}})
+    .workspaceCommand(projectPath('base'), ['module:add', 'image', 'auth', 'core@latest'])
+    .it('ignores installed modules without changed version', ctx => {
+      expect(ctx.stdout).to.contain('Module "image" added - version: latest');
+      expect(ctx.stdout).to.contain('Module "auth" is already installed');
+      expect(ctx.stdout).to.contain('Module "core" is already installed');
+    });
 });
@@ -184,4 +184,19 @@ describe('module:create', () => {
     .workspaceCommand(projectPath('base'), ['module:create', 'blog', '--namespace', '12345invalid'])
     .catch(/Value "12345invalid" is not a valid namespace/)
     .it('throws error for invalid namespace via flag', (ctx) => {});
+
+  test
+    .stdout()
+    .stderr()
+    .workspaceCommand(projectPath('with-module'), ['module:create', 'news', '--namespace', 'Blog'])
+    .catch(/The namespace Blog is already used by the module @private\/blog/)
+    .it('throws error for duplicate namespace via flag', (ctx) => {});
+
+  test
+    .stdout()
+    .stderr()
+    .prompt(['Blog'])
+    .workspaceCommand(projectPath('with-module'), ['module:create', 'news'])
+    .catch(/The namespace is already used by the module @private\/blog/)
+    .it('throws error for duplicate namespace', (ctx) => {});
 });
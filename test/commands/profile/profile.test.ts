@@ -0,0 +1,133 @@
+import {expect, test} from '../../test';
+import fs from 'fs';
+import {mkdirpSync, removeSync} from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {WHOAMI_QUERY} from '../../../src/commands/whoami';
+
+const TEST_HOME = path.join(os.tmpdir(), 'slicknode-profile-test');
+
+function projectPath(name: string) {
+  return path.join(__dirname, 'testprojects', name);
+}
+
+function readJson(file: string) {
+  return JSON.parse(fs.readFileSync(path.join(TEST_HOME, '.slicknode', file), 'utf8'));
+}
+
+function writeJson(file: string, data: {[key: string]: any}) {
+  const target = path.join(TEST_HOME, '.slicknode', file);
+  mkdirpSync(path.dirname(target));
+  fs.writeFileSync(target, JSON.stringify(data));
+}
+
+/**
+ * Creates a profile with auth tokens and a local API endpoint
+ */
+function createProfile(name: string, accessToken: string) {
+  writeJson(path.join('profiles', name, 'config.json'), {endpoint: 'http://localhost'});
+  writeJson(path.join('profiles', name, 'auth.json'), {
+    'slicknode:auth:accessToken': accessToken,
+    'slicknode:auth:accessTokenExpires': String(Date.now() + 3600000),
+  });
+}
+
+const WHOAMI_RESULT = {data: {viewer: {user: {id: '1', email: 'test@client-a.com'}, accounts: {edges: []}}}};
+
+describe('profile', () => {
+  beforeEach(() => removeSync(TEST_HOME));
+
+  test
+    .stub(os, 'homedir', () => TEST_HOME)
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['profile:use', 'client-a', '--endpoint', 'https://api.client-a.com/'])
+    .it('selects and creates profile', ctx => {
+      expect(ctx.stdout).to.contain('Profile "client-a" is now used by default');
+      expect(readJson('config.json').profile).to.equal('client-a');
+      expect(readJson('profiles/client-a/config.json').endpoint).to.equal('https://api.client-a.com/');
+    });
+
+  test
+    .stub(os, 'homedir', () => TEST_HOME)
+    .do(() => writeJson('config.json', {profile: 'client-a'}))
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['profile:use', 'default'])
+    .it('selects default profile', ctx => {
+      expect(readJson('config.json')).to.not.have.property('profile');
+    });
+
+  test
+    .stub(os, 'homedir', () => TEST_HOME)
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['profile:use', 'Client'])
+    .catch(/The profile name "Client" is invalid/)
+    .it('fails for invalid profile name', ctx => {
+    });
+
+  test
+    .stub(os, 'homedir', () => TEST_HOME)
+    .do(() => {
+      writeJson('config.json', {profile: 'client-b'});
+      createProfile('client-a', 'tokena');
+      writeJson(path.join('profiles', 'client-b', 'config.json'), {});
+    })
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['profile:list'])
+    .it('lists profiles', ctx => {
+      expect(ctx.stdout).to.equal(
+        'default  https://api.slicknode.com/\n' +
+        'client-a  http://localhost\n' +
+        'client-b (current)  https://api.slicknode.com/\n'
+      );
+    });
+
+  test
+    .stub(os, 'homedir', () => TEST_HOME)
+    .do(() => createProfile('client-a', 'tokena'))
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .nock('http://localhost', api => api
+      .post('/')
+      .matchHeader('authorization', 'Bearer tokena')
+      .reply(200, WHOAMI_RESULT)
+    )
+    .command(['whoami', '--profile', 'client-a'])
+    .it('uses auth tokens and endpoint of profile flag', ctx => {
+      expect(ctx.stdout).to.equal('Logged in as test@client-a.com\nProfile: client-a\n');
+    });
+
+  test
+    .stub(os, 'homedir', () => TEST_HOME)
+    .do(() => createProfile('client-a', 'tokena'))
+    .env({SLICKNODE_PROFILE: 'client-a'})
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .nock('http://localhost', api => api
+      .post('/')
+      .matchHeader('authorization', 'Bearer tokena')
+      .reply(200, WHOAMI_RESULT)
+    )
+    .command(['whoami'])
+    .it('uses profile of SLICKNODE_PROFILE variable', ctx => {
+      expect(ctx.stdout).to.contain('Profile: client-a');
+    });
+
+  test
+    .stub(os, 'homedir', () => TEST_HOME)
+    .do(() => createProfile('client-a', 'tokena'))
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .nock('http://localhost', api => api
+      .post('/')
+      .matchHeader('authorization', 'Bearer tokena')
+      .reply(200, WHOAMI_RESULT)
+    )
+    .workspaceCommand(projectPath('with-profile'), ['whoami'])
+    .it('uses profile of environment', ctx => {
+      expect(ctx.stdout).to.contain('Profile: client-a');
+    });
+});
@@ -0,0 +1,267 @@
+import {expect, test} from '../../test';
+import path from 'path';
+import fs from 'fs';
+import {MIGRATE_PROJECT_MUTATION} from '../../../src/commands/status';
+import {LOAD_PROJECT_BUNDLE_QUERY} from '../../../src/commands/pull';
+import {BaseCommand} from '../../../src/base/base-command';
+
+function projectPath(name: string) {
+  return path.join(__dirname, 'testprojects', name);
+}
+
+const BUNDLE_PATH = path.join(__dirname, 'testprojects', 'promotebundle.zip');
+
+const SOURCE_VERSION_RESULT = {data: {
+  project: {
+    version: {
+      id: 'UHJvamVjdFZlcnNpb246Mw',
+      bundle: 'http://localhost/promotebundle.zip',
+    },
+  },
+}};
+
+const TARGET_VERSION_REQUEST = {
+  query: LOAD_PROJECT_BUNDLE_QUERY,
+  variables: {id: 'UHJvamVjdDoy'},
+};
+
+const TARGET_VERSION_RESULT = {data: {
+  project: {
+    version: {
+      id: 'UHJvamVjdFZlcnNpb246Mg',
+      bundle: 'http://localhost/targetbundle.zip',
+    },
+  },
+}};
+
+const CHANGED_TARGET_VERSION_RESULT = {data: {
+  project: {
+    version: {
+      id: 'UHJvamVjdFZlcnNpb246NQ',
+      bundle: 'http://localhost/targetbundle.zip',
+    },
+  },
+}};
+
+const BREAKING_CHANGES = [
+  {
+    type: 'REMOVE',
+    breaking: true,
+    path: ['types', 'Test_TestType', 'fields', 'oldField'],
+    module: '@private/test-app',
+    description: 'Remove field oldField',
+  },
+];
+
+const CHANGES = [
+  {
+    type: 'ADD',
+    breaking: false,
+    path: ['types', 'Test_TestType', 'fields', 'newField'],
+    module: '@private/test-app',
+    description: 'Add field newField',
+  },
+];
+
+function readEnvironments(dir: string) {
+  return JSON.parse(fs.readFileSync(path.join(dir, '.slicknoderc'), 'utf8'));
+}
+
+describe('promote', () => {
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('initialized'), ['promote', 'staging', 'production'])
+    .catch('The environment "production" does not exist')
+    .it('fails for unknown target environment', ctx => {
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('initialized'), ['promote', 'staging', 'staging'])
+    .catch('The source and the target environment have to be different')
+    .it('fails for identical environments', ctx => {
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(LOAD_PROJECT_BUNDLE_QUERY, {data: {project: {version: null}}})
+    .workspaceCommand(projectPath('initialized'), ['promote', 'staging', 'default'])
+    .catch('The environment "staging" does not have a deployed version')
+    .it('fails for source environment without version', ctx => {
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(LOAD_PROJECT_BUNDLE_QUERY, SOURCE_VERSION_RESULT)
+    .nock('http://localhost', loader => loader.get('/promotebundle.zip').replyWithFile(200, BUNDLE_PATH))
+    .api(TARGET_VERSION_REQUEST, TARGET_VERSION_RESULT)
+    .api({
+      query: MIGRATE_PROJECT_MUTATION,
+      variables: {input: {id: 'UHJvamVjdDoy', dryRun: true}},
+    }, {data: {migrateProject: {changes: CHANGES}}})
+    .prompt([ false ])
+    .workspaceCommand(projectPath('initialized'), ['promote', 'staging', 'default'])
+    .it('aborts promotion on user input', ctx => {
+      expect(ctx.stdout).to.contain('Promoting version UHJvamVjdFZlcnNpb246Mw from "staging" to "default"');
+      expect(ctx.stdout).to.contain('add:    Add field newField');
+      expect(ctx.stdout).to.contain('Promotion aborted');
+      expect(readEnvironments(ctx.workspace!).default.version).to.equal('UHJvamVjdFZlcnNpb246Mg');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(LOAD_PROJECT_BUNDLE_QUERY, SOURCE_VERSION_RESULT)
+    .nock('http://localhost', loader => loader.get('/promotebundle.zip').replyWithFile(200, BUNDLE_PATH))
+    .api(TARGET_VERSION_REQUEST, TARGET_VERSION_RESULT)
+    .api({
+      query: MIGRATE_PROJECT_MUTATION,
+      variables: {input: {id: 'UHJvamVjdDoy', dryRun: true}},
+    }, {data: {migrateProject: {changes: CHANGES}}})
+    .api({
+      query: MIGRATE_PROJECT_MUTATION,
+      variables: {input: {id: 'UHJvamVjdDoy', dryRun: false}},
+    }, {data: {migrateProject: {
+      changes: CHANGES,
+      node: {
+        version: {
+          id: 'UHJvamVjdFZlcnNpb246NA',
+          bundle: 'http://localhost/newbundle.zip',
+        },
+      },
+    }}})
+    .workspaceCommand(projectPath('initialized'), ['promote', 'staging', 'default', '--force'])
+    .it('promotes version to target environment', ctx => {
+      expect(ctx.stdout).to.contain('1 addition, 0 updates, 0 removals');
+      expect(ctx.stdout).to.contain('Version was successfully promoted to environment "default"!');
+      const envMap = readEnvironments(ctx.workspace!);
+      expect(envMap.default.version).to.equal('UHJvamVjdFZlcnNpb246NA');
+      expect(envMap.staging.version).to.equal('UHJvamVjdFZlcnNpb246Mw');
+
+      // Local source files are not changed
+      expect(fs.existsSync(path.join(ctx.workspace!, 'modules'))).to.equal(false);
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(LOAD_PROJECT_BUNDLE_QUERY, SOURCE_VERSION_RESULT)
+    .nock('http://localhost', loader => loader.get('/promotebundle.zip').replyWithFile(200, BUNDLE_PATH))
+    .api(TARGET_VERSION_REQUEST, TARGET_VERSION_RESULT)
+    .api(MIGRATE_PROJECT_MUTATION, {data: {migrateProject: {
+      changes: [
+        {
+          ...CHANGES[0],
+          type: 'REMOVE',
+          breaking: true,
+          description: 'Remove field oldField',
+        },
+      ],
+    }}})
+    .prompt([ false ])
+    .workspaceCommand(projectPath('initialized'), ['promote', 'staging', 'default', '--force'])
+    .it('asks for confirmation of breaking changes with force flag', ctx => {
+      expect(ctx.stdout).to.contain('remove:  Remove field oldField [BREAKING]');
+      expect(ctx.stdout).to.contain('Promotion aborted');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .stub(BaseCommand.prototype, 'isInteractive' as any, () => false)
+    .api(LOAD_PROJECT_BUNDLE_QUERY, SOURCE_VERSION_RESULT)
+    .nock('http://localhost', loader => loader.get('/promotebundle.zip').replyWithFile(200, BUNDLE_PATH))
+    .api(TARGET_VERSION_REQUEST, TARGET_VERSION_RESULT)
+    .api(MIGRATE_PROJECT_MUTATION, {data: {migrateProject: {changes: BREAKING_CHANGES}}})
+    .workspaceCommand(projectPath('initialized'), ['promote', 'staging', 'default', '--force'])
+    .catch(/The changes contain 1 breaking change, use the --allow-breaking flag/)
+    .it('fails for breaking changes without --allow-breaking in non-interactive mode', ctx => {
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .stub(BaseCommand.prototype, 'isInteractive' as any, () => false)
+    .api(LOAD_PROJECT_BUNDLE_QUERY, SOURCE_VERSION_RESULT)
+    .nock('http://localhost', loader => loader.get('/promotebundle.zip').replyWithFile(200, BUNDLE_PATH))
+    .api(TARGET_VERSION_REQUEST, TARGET_VERSION_RESULT)
+    .api({
+      query: MIGRATE_PROJECT_MUTATION,
+      variables: {input: {id: 'UHJvamVjdDoy', dryRun: true}},
+    }, {data: {migrateProject: {changes: BREAKING_CHANGES}}})
+    .api({
+      query: MIGRATE_PROJECT_MUTATION,
+      variables: {input: {id: 'UHJvamVjdDoy', dryRun: false}},
+    }, {data: {migrateProject: {
+      changes: BREAKING_CHANGES,
+      node: {
+        version: {
+          id: 'UHJvamVjdFZlcnNpb246NA',
+          bundle: 'http://localhost/newbundle.zip',
+        },
+      },
+    }}})
+    .workspaceCommand(
+      projectPath('initialized'),
+      ['promote', 'staging', 'default', '--force', '--allow-breaking'],
+    )
+    .it('promotes breaking changes with --allow-breaking in non-interactive mode', ctx => {
+      expect(ctx.stdout).to.contain('0 additions, 0 updates, 1 removal');
+      expect(ctx.stdout).to.contain('Version was successfully promoted to environment "default"!');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(LOAD_PROJECT_BUNDLE_QUERY, SOURCE_VERSION_RESULT)
+    .nock('http://localhost', loader => loader.get('/promotebundle.zip').replyWithFile(200, BUNDLE_PATH))
+    .api(TARGET_VERSION_REQUEST, CHANGED_TARGET_VERSION_RESULT)
+    .prompt([ false ])
+    .workspaceCommand(projectPath('initialized'), ['promote', 'staging', 'default'])
+    .it('asks for confirmation if target environment was deployed since last pull', ctx => {
+      expect(ctx.stderr).to.contain('The promotion replaces the deployed version');
+      expect(ctx.stdout).to.contain('Promotion aborted');
+      expect(readEnvironments(ctx.workspace!).default.version).to.equal('UHJvamVjdFZlcnNpb246Mg');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .stub(BaseCommand.prototype, 'isInteractive' as any, () => false)
+    .api(LOAD_PROJECT_BUNDLE_QUERY, SOURCE_VERSION_RESULT)
+    .nock('http://localhost', loader => loader.get('/promotebundle.zip').replyWithFile(200, BUNDLE_PATH))
+    .api(TARGET_VERSION_REQUEST, CHANGED_TARGET_VERSION_RESULT)
+    .api({
+      query: MIGRATE_PROJECT_MUTATION,
+      variables: {input: {id: 'UHJvamVjdDoy', dryRun: true}},
+    }, {data: {migrateProject: {changes: CHANGES}}})
+    .api({
+      query: MIGRATE_PROJECT_MUTATION,
+      variables: {input: {id: 'UHJvamVjdDoy', dryRun: false}},
+    }, {data: {migrateProject: {
+      changes: CHANGES,
+      node: {
+        version: {
+          id: 'UHJvamVjdFZlcnNpb246NA',
+          bundle: 'http://localhost/newbundle.zip',
+        },
+      },
+    }}})
+    .workspaceCommand(projectPath('initialized'), ['promote', 'staging', 'default', '--force'])
+    .it('only warns if target environment was deployed since last pull in non-interactive mode', ctx => {
+      expect(ctx.stderr).to.contain('The promotion replaces the deployed version');
+      expect(ctx.stdout).to.contain('Version was successfully promoted to environment "default"!');
+    });
+});
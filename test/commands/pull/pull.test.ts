@@ -5,6 +5,7 @@ import yaml from 'js-yaml';
 import {Kind, parse} from 'graphql';
 import {LOAD_PROJECT_BUNDLE_QUERY} from '../../../src/commands/pull';
 import {GET_REPOSITORY_URL_QUERY} from '../../../src/utils/pullDependencies';
+import {readLockfile} from '../../../src/utils/lockfile';
 
 function projectPath(name: string) {
   return path.join(__dirname, 'testprojects', name);
@@ -83,6 +84,10 @@ describe('pull', () => {
     .it('pulls project sources successfully', ctx => {
       expect(ctx.stdout).to.contain('Local source was successfully updated');
 
+      // Check if pulled version was stored in environment
+      const slicknoderc = JSON.parse(fs.readFileSync(path.join(ctx.workspace!, '.slicknoderc')).toString());
+      expect(slicknoderc.default.version).to.equal('someid');
+
       // Check slicknode.yml content
       const slicknodeYml = yaml.safeLoad(
         fs.readFileSync(path.join(ctx.workspace!, 'slicknode.yml')).toString()
@@ -361,4 +366,128 @@ describe('pull', () => {
         expect(directiveDefinition).to.be.an('object');
       }
     });
+
+  test
+    .stdout()
+    .stderr()
+    .login()
+
+    // Mock repository detail requests for modules
+    .nock(
+      'http://localhost',
+       loader => loader.get('/repository/core').reply(200, require('./fixtures/modules/core.json'))
+    )
+    .nock(
+      'http://localhost',
+       loader => loader.get('/repository/auth').reply(200, require('./fixtures/modules/auth-versions.json'))
+    )
+    .nock(
+      'http://localhost',
+       loader => loader.get('/repository/relay').reply(200, require('./fixtures/modules/relay.json'))
+    )
+
+    // Mock source archives for modules, auth.zip is the highest version that matches ~0.0.1
+    .nock(
+      'http://localhost',
+       loader => loader.get('/repository/core.zip').replyWithFile(200, path.join(__dirname, 'fixtures', 'modules', 'core_0.0.1.zip'))
+    )
+    .nock(
+      'http://localhost',
+       loader => loader.get('/repository/auth.zip').replyWithFile(200, path.join(__dirname, 'fixtures', 'modules', 'auth_0.0.1.zip'))
+    )
+    .nock(
+      'http://localhost',
+       loader => loader.get('/repository/relay.zip').replyWithFile(200, path.join(__dirname, 'fixtures', 'modules', 'relay_0.0.1.zip'))
+    )
+
+    .api(GET_REPOSITORY_URL_QUERY, {data: {registryUrl: 'http://localhost/repository/'}})
+    .workspaceCommand(projectPath('pinned-versions'), ['pull'])
+    .it('pulls highest module versions that match semver ranges', ctx => {
+      expect(ctx.stdout).to.contain('Local source was successfully updated');
+      expect(fs.existsSync(
+        path.join(ctx.workspace!, '.slicknode', 'cache', 'modules', 'auth', 'slicknode.yml')
+      )).to.equal(true);
+
+      // Check if resolved versions were added to lockfile
+      const lockfile = readLockfile(ctx.workspace!);
+      expect(Object.keys(lockfile.modules)).to.deep.equal([ 'auth', 'core', 'relay' ]);
+      expect(lockfile.modules.auth).to.deep.equal({
+        requested: '~0.0.1',
+        version: '0.0.2',
+        zip: 'http://localhost/repository/auth.zip',
+        integrity: 'sha512-kmQst1Beow+Hw2+cixHPuKQnqCKecJjinVjJVsJtuPchHSDGOv11+0NEODcZ07jtmV5VZz89dsZeIkrAChUz1A==',
+      });
+    });
+
+  test
+    .stdout()
+    .stderr()
+    .login()
+
+    // Only mock source archives, locked versions are installed without loading the registry
+    .nock(
+      'http://localhost',
+       loader => loader.get('/repository/core.zip').replyWithFile(200, path.join(__dirname, 'fixtures', 'modules', 'core_0.0.1.zip'))
+    )
+    .nock(
+      'http://localhost',
+       loader => loader.get('/repository/auth_0.0.1.zip').replyWithFile(200, path.join(__dirname, 'fixtures', 'modules', 'auth_0.0.1.zip'))
+    )
+    .nock(
+      'http://localhost',
+       loader => loader.get('/repository/relay.zip').replyWithFile(200, path.join(__dirname, 'fixtures', 'modules', 'relay_0.0.1.zip'))
+    )
+    .workspaceCommand(projectPath('locked-versions'), ['pull', '--frozen-lockfile'])
+    .it('pulls locked module versions', ctx => {
+      expect(ctx.stdout).to.contain('Local source was successfully updated');
+      expect(fs.existsSync(
+        path.join(ctx.workspace!, '.slicknode', 'cache', 'modules', 'auth', 'slicknode.yml')
+      )).to.equal(true);
+
+      // Lockfile is unchanged
+      expect(fs.readFileSync(path.join(ctx.workspace!, 'slicknode.lock'), 'utf8')).to.equal(
+        fs.readFileSync(path.join(projectPath('locked-versions'), 'slicknode.lock'), 'utf8'),
+      );
+    });
+
+  test
+    .stdout()
+    .stderr()
+    .login()
+    .workspaceCommand(projectPath('outdated-lockfile'), ['pull', '--frozen-lockfile'])
+    .catch(
+      'The slicknode.lock file is out of date with the slicknode.yml for the modules: auth, image, relay. ' +
+      'Run "slicknode pull" without --frozen-lockfile to update it.'
+    )
+    .it('fails with frozen lockfile that does not match slicknode.yml', () => {
+    });
+
+  test
+    .stdout()
+    .stderr()
+    .login()
+    .nock(
+      'http://localhost',
+       loader => loader.get('/repository/auth_0.0.1.zip').replyWithFile(200, path.join(__dirname, 'fixtures', 'modules', 'auth_0.0.1.zip'))
+    )
+    .workspaceCommand(projectPath('modified-module'), ['pull'])
+    .catch(
+      'Update of module "auth" failed: The source archive of version "0.0.1" does not match the hash in the slicknode.lock file.'
+    )
+    .it('fails if source archive does not match lockfile hash', () => {
+    });
+
+  test
+    .stdout()
+    .stderr()
+    .login()
+    .nock(
+      'http://localhost',
+       loader => loader.get('/repository/auth').reply(200, require('./fixtures/modules/auth-versions.json'))
+    )
+    .api(GET_REPOSITORY_URL_QUERY, {data: {registryUrl: 'http://localhost/repository/'}})
+    .workspaceCommand(projectPath('unavailable-version'), ['pull'])
+    .catch('Update of module "auth" failed: Version "^2.0.0" could not be found')
+    .it('fails if no module version matches semver range', () => {
+    });
 });
@@ -0,0 +1,157 @@
+import {expect, test} from '../../test';
+import path from 'path';
+import fs from 'fs';
+import {MIGRATE_PROJECT_MUTATION} from '../../../src/commands/status';
+import {GET_PROJECT_VERSION_QUERY} from '../../../src/commands/versions/show';
+
+function projectPath(name: string) {
+  return path.join(__dirname, 'testprojects', name);
+}
+
+const BUNDLE_PATH = path.join(__dirname, 'testprojects', 'versionbundle.zip');
+const OUTSIDE_BUNDLE_PATH = path.join(__dirname, 'testprojects', 'outsidebundle.zip');
+
+describe('rollback', () => {
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr()
+    .api(GET_PROJECT_VERSION_QUERY, {data: {
+      version: {
+        id: 'version1',
+        createdAt: '2020-03-01T10:00:00.000Z',
+        bundle: 'http://localhost/versionbundle.zip',
+        project: {
+          id: 'UHJvamVjdDoy',
+        },
+        changes: [],
+      },
+    }})
+    .prompt([ false ])
+    .workspaceCommand(projectPath('with-module'), ['rollback', 'version1'], {moduleCache: true})
+    .it('aborts rollback on user input', ctx => {
+      expect(ctx.stdout).to.contain('Rollback aborted');
+      expect(fs.readFileSync(path.join(ctx.workspace!, 'modules', 'test-app', 'schema.graphql'), 'utf8'))
+        .to.not.contain('restoredField');
+      expect(fs.existsSync(path.join(ctx.workspace!, 'modules', 'test-app', 'permissions', 'Test_Removed.graphql')))
+        .to.equal(true);
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr()
+    .workspaceCommand(
+      projectPath('with-module'),
+      ['rollback', 'version1', '--env', 'unknown', '--force'],
+      {moduleCache: true},
+    )
+    .catch(/Environment "unknown" is not configured/)
+    .it('fails for unconfigured environment', ctx => {
+      expect(fs.readFileSync(path.join(ctx.workspace!, 'modules', 'test-app', 'schema.graphql'), 'utf8'))
+        .to.not.contain('restoredField');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr()
+    .api(GET_PROJECT_VERSION_QUERY, {data: {
+      version: {
+        id: 'version1',
+        createdAt: '2020-03-01T10:00:00.000Z',
+        bundle: 'http://localhost/versionbundle.zip',
+        project: {
+          id: 'UHJvamVjdDoz',
+        },
+        changes: [],
+      },
+    }})
+    .workspaceCommand(projectPath('with-module'), ['rollback', 'version1', '--force'], {moduleCache: true})
+    .catch(/The version "version1" is not a version of the project in environment "default"/)
+    .it('fails for version of other project', ctx => {
+      expect(fs.readFileSync(path.join(ctx.workspace!, 'modules', 'test-app', 'schema.graphql'), 'utf8'))
+        .to.not.contain('restoredField');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr()
+    .api(GET_PROJECT_VERSION_QUERY, {data: {
+      version: {
+        id: 'version1',
+        createdAt: '2020-03-01T10:00:00.000Z',
+        bundle: 'http://localhost/versionbundle.zip',
+        project: {
+          id: 'UHJvamVjdDoy',
+        },
+        changes: [],
+      },
+    }})
+    // Dry run request
+    .api(MIGRATE_PROJECT_MUTATION, {data: {
+      migrateProject: {
+        changes: [
+          {
+            type: 'ADD',
+            breaking: false,
+            path: ['types', 'Test_TestType', 'fields', 'restoredField'],
+            module: '@private/test-app',
+            description: 'Add field restoredField',
+          },
+        ]
+      }
+    }})
+    // Actual migration
+    .api(MIGRATE_PROJECT_MUTATION, {data: {
+      migrateProject: {
+        node: {
+          version: {
+            bundle: 'http://localhost/versionbundle.zip'
+          }
+        }
+      }
+    }})
+    .nock(
+      'http://localhost',
+      loader => loader.get('/versionbundle.zip').times(2).replyWithFile(200, BUNDLE_PATH)
+    )
+    .workspaceCommand(projectPath('with-module'), ['rollback', 'version1', '--force'], {moduleCache: true})
+    .it('restores version and deploys it', ctx => {
+      expect(fs.readFileSync(path.join(ctx.workspace!, 'modules', 'test-app', 'schema.graphql'), 'utf8'))
+        .to.contain('restoredField');
+      expect(fs.existsSync(path.join(ctx.workspace!, 'modules', 'test-app', 'permissions', 'Test_Removed.graphql')))
+        .to.equal(false);
+      expect(fs.existsSync(path.join(ctx.workspace!, 'modules', 'test-app', 'permissions', 'Test_TestType.graphql')))
+        .to.equal(true);
+      expect(ctx.stdout).to.contain('Add field restoredField');
+      expect(ctx.stdout).to.contain('Deployment successful');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(GET_PROJECT_VERSION_QUERY, {data: {
+      version: {
+        id: 'version1',
+        createdAt: '2020-03-01T10:00:00.000Z',
+        bundle: 'http://localhost/outsidebundle.zip',
+        project: {
+          id: 'UHJvamVjdDoy',
+        },
+        changes: [],
+      },
+    }})
+    .nock(
+      'http://localhost',
+      loader => loader.get('/outsidebundle.zip').replyWithFile(200, OUTSIDE_BUNDLE_PATH)
+    )
+    .workspaceCommand(projectPath('with-module'), ['rollback', 'version1', '--force'], {moduleCache: true})
+    .catch(/The path of module @private\/test-app is outside of the project directory: \.\/\.\.\/test-app/)
+    .it('fails for module paths outside of the project directory', ctx => {
+      expect(fs.existsSync(path.join(ctx.workspace!, 'modules', 'test-app', 'permissions', 'Test_Removed.graphql')))
+        .to.equal(true);
+    });
+});
@@ -26,7 +26,7 @@ describe('runtime:build', () => {
     .tmpdir()
     .prompt([ true ])
     .timeout(20000)
-    .workspaceCommand(projectPath('initialized'), ctx => ['runtime:build', ctx.tmpdir])
+    .workspaceCommand(projectPath('initialized'), ctx => ['runtime:build', ctx.tmpdir], {moduleCache: true})
     .do(async (ctx) => {
       await execute('npm', [ 'install' ], null, {
         cwd: ctx.tmpdir,
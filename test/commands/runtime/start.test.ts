@@ -43,7 +43,7 @@ describe('runtime:start', () => {
     .tmpdir()
     .timeout(20000)
     .tmpExpress(ExpressImport)
-    .workspaceCommand(projectPath('initialized'), ctx => ['runtime:start'])
+    .workspaceCommand(projectPath('initialized'), ctx => ['runtime:start'], {moduleCache: true})
     .it('shows warning for start without secret', async ctx => {
       const response = await request(ctx.expressApp)
         .post('/')
@@ -59,7 +59,11 @@ describe('runtime:start', () => {
     .tmpdir()
     .timeout(20000)
     .tmpExpress(ExpressImport)
-    .workspaceCommand(projectPath('initialized'), ctx => ['runtime:start', '--secret', 'somesecretkey1234'])
+    .workspaceCommand(
+      projectPath('initialized'),
+      ctx => ['runtime:start', '--secret', 'somesecretkey1234'],
+      {moduleCache: true},
+    )
     .it('shows error for missing authorization header', async ctx => {
       const response = await request(ctx.expressApp)
         .post('/')
@@ -81,7 +85,7 @@ describe('runtime:start', () => {
     .tmpdir()
     .timeout(20000)
     .tmpExpress(ExpressImport)
-    .workspaceCommand(projectPath('with-code'), ctx => ['runtime:start'])
+    .workspaceCommand(projectPath('with-code'), ctx => ['runtime:start'], {moduleCache: true})
     .it('executes code from JS file in module, ignoring file changes', async ctx => {
       const response = await request(ctx.expressApp)
         .post('/')
@@ -122,7 +126,7 @@ describe('runtime:start', () => {
     .tmpdir()
     .timeout(20000)
     .tmpExpress(ExpressImport)
-    .workspaceCommand(projectPath('with-code'), ctx => ['runtime:start', '--watch'])
+    .workspaceCommand(projectPath('with-code'), ctx => ['runtime:start', '--watch'], {moduleCache: true})
     .it('updates code in watch mode', async ctx => {
       const response = await request(ctx.expressApp)
         .post('/')
@@ -1,6 +1,10 @@
 import {expect, test} from '../../test';
 import path from 'path';
+import {readFileSync} from 'fs';
+import inquirer from 'inquirer';
+import {BaseCommand} from '../../../src/base/base-command';
 import {MIGRATE_PROJECT_MUTATION} from '../../../src/commands/status';
+import {LOAD_PROJECT_BUNDLE_QUERY} from '../../../src/commands/pull';
 
 function projectPath(name: string) {
   return path.join(__dirname, 'testprojects', name);
@@ -23,7 +27,7 @@ describe('status', () => {
     .stdout({stripColor: true})
     .stderr()
     .api(MIGRATE_PROJECT_MUTATION, {data: null, errors: [{message: 'No access'}]})
-    .command(['status', '--dir', projectPath('initialized')])
+    .workspaceCommand(projectPath('initialized'), ['status'], {setWorkspaceAsDir: true, moduleCache: true})
     .catch(/Error loading state from API: No access/)
     .it('fails for API load error', ctx => {
 
@@ -46,11 +50,12 @@ describe('status', () => {
         ]
       }
     }})
-    .command(['status', '--dir', projectPath('initialized')])
+    .workspaceCommand(projectPath('initialized'), ['status'], {setWorkspaceAsDir: true, moduleCache: true})
     .it('displays single change', ctx => {
       expect(ctx.stdout).to.contain('1 pending change');
-      expect(ctx.stdout).to.contain('Update permissions');
+      expect(ctx.stdout).to.contain('Update permissions [BREAKING]');
       expect(ctx.stdout).to.contain('update:');
+      expect(ctx.stdout).to.contain('1 of the changes is breaking');
     });
 
   test
@@ -84,7 +89,7 @@ describe('status', () => {
         ]
       }
     }})
-    .command(['status', '--dir', projectPath('initialized')])
+    .workspaceCommand(projectPath('initialized'), ['status'], {setWorkspaceAsDir: true, moduleCache: true})
     .it('displays multiple changes', ctx => {
       expect(ctx.stdout).to.contain('3 pending change');
       expect(ctx.stdout).to.contain('Update permissions');
@@ -99,7 +104,7 @@ describe('status', () => {
     .login()
     .stdout({stripColor: true})
     .stderr({stripColor: true})
-    .command(['status', '--dir', projectPath('with-syntax-error')])
+    .workspaceCommand(projectPath('with-syntax-error'), ['status'], {setWorkspaceAsDir: true, moduleCache: true})
     .catch(/Abort/)
     .it('fails for syntax error in GraphQL schema', ctx => {
       expect(ctx.stderr).to.contain('Error parsing schema');
@@ -112,10 +117,34 @@ describe('status', () => {
     .login()
     .stdout({stripColor: true})
     .stderr({stripColor: true})
-    .command(['status', '--dir', projectPath('with-invalid-module-slicknode-yml')])
+    .workspaceCommand(
+      projectPath('with-invalid-module-slicknode-yml'),
+      ['status'],
+      {setWorkspaceAsDir: true, moduleCache: true},
+    )
     .catch(/Abort/)
     .it('fails for invalid module slicknode.yml', ctx => {
       expect(ctx.stderr).to.contain('Invalid value at path "module,invalidAttribute"');
+      expect(ctx.stderr).to.contain('blog/slicknode.yml:4:3');
+      expect(ctx.stderr).to.contain('> 4 |   invalidAttribute: true');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('with-invalid-permissions'), ['status'], {setWorkspaceAsDir: true, moduleCache: true})
+    .catch(/Abort/)
+    .it('fails for invalid permission documents', ctx => {
+      expect(ctx.stderr).to.contain('Invalid permissions in module "@private/blog"');
+      expect(ctx.stderr).to.contain('Blog_Comment.graphql');
+      expect(ctx.stderr).to.contain('Invalid role "EDITOR"');
+      expect(ctx.stderr).to.contain('Invalid operation "PUBLISH"');
+      expect(ctx.stderr).to.contain('Field "name" does not exist on type "Blog_Post"');
+      expect(ctx.stderr).to.contain('Cannot filter by field "author"');
+      expect(ctx.stderr).to.contain('mutation "Blog_unpublishPost" does not exist');
+      expect(ctx.stderr).to.not.contain('mutation "Blog_publishPost" does not exist');
+      expect(ctx.stderr).to.contain('permissions/Blog_Post.graphql:6:15');
     });
 
   test
@@ -149,7 +178,7 @@ describe('status', () => {
         ]
       }
     }})
-    .command(['status', '--dir', projectPath('with-remote-module')])
+    .workspaceCommand(projectPath('with-remote-module'), ['status'], {setWorkspaceAsDir: true, moduleCache: true})
     .it('displays multiple changes for remote module', ctx => {
       expect(ctx.stdout).to.contain('3 pending change');
       expect(ctx.stdout).to.contain('Update permissions');
@@ -164,9 +193,112 @@ describe('status', () => {
     .login()
     .stdout({stripColor: true})
     .stderr({stripColor: true})
-    .command(['status', '--dir', projectPath('with-remote-module-duplicate-types')])
+    .workspaceCommand(
+      projectPath('with-remote-module-duplicate-types'),
+      ['status'],
+      {setWorkspaceAsDir: true, moduleCache: true},
+    )
     .catch(/Abort/)
     .it('validates remote GraphQL schema', ctx => {
       expect(ctx.stderr).to.contain('only one type named "Viewer"');
     });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(
+      projectPath('with-cached-version'),
+      ['status', '--offline'],
+      {setWorkspaceAsDir: true, moduleCache: true},
+    )
+    .it('displays changes compared to the cached version offline', ctx => {
+      expect(ctx.stdout).to.contain('4 pending changes');
+      expect(ctx.stdout).to.contain('add:    Blog_Comment was added.');
+      expect(ctx.stdout).to.contain('add:    Blog_Post.text was added.');
+      expect(ctx.stdout).to.contain('remove:  ARCHIVED was removed from enum type Blog_PostStatus.');
+      expect(ctx.stdout).to.contain('update:  Blog_Post.views changed type from Int to String.');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr()
+    .api(MIGRATE_PROJECT_MUTATION, {data: {
+      migrateProject: {
+        changes: [
+          {
+            type: 'ADD',
+            breaking: false,
+            path: ['types', 'User', 'fields', 'name'],
+            module: 'core',
+            description: 'Add field name',
+          }
+        ]
+      }
+    }})
+    .workspaceCommand(projectPath('initialized'), ['status', '--out', 'plan.json'], {moduleCache: true})
+    .it('writes migration plan to file', ctx => {
+      expect(ctx.stdout).to.contain('Migration plan was written to plan.json');
+      const plan = JSON.parse(readFileSync(path.join(ctx.workspace!, 'plan.json'), 'utf8'));
+      expect(plan.changes).to.deep.equal([
+        {
+          type: 'ADD',
+          breaking: false,
+          path: ['types', 'User', 'fields', 'name'],
+          module: 'core',
+          description: 'Add field name',
+        }
+      ]);
+      expect(plan.checksum).to.match(/^[a-f0-9]{64}$/);
+      expect(plan.baseVersion).to.equal('UHJvamVjdFZlcnNpb246Mg');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(LOAD_PROJECT_BUNDLE_QUERY, {data: {
+      project: {
+        version: {
+          id: 'UHJvamVjdFZlcnNpb246Mw',
+          bundle: 'http://localhost/dummybundle.zip'
+        }
+      }
+    }})
+    .api(MIGRATE_PROJECT_MUTATION, {data: {
+      migrateProject: {
+        changes: []
+      }
+    }})
+    .prompt([ false ])
+    .workspaceCommand(projectPath('initialized'), ['status'], {setWorkspaceAsDir: true, moduleCache: true})
+    .it('warns if environment was deployed since last pull', ctx => {
+      expect(ctx.stderr).to.contain('The environment "default" was deployed by someone else');
+      expect(ctx.stdout).to.contain('No changes detected in project');
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .stub(BaseCommand.prototype, 'isInteractive' as any, () => false)
+    .stub(inquirer, 'prompt', () => Promise.reject(new Error('Unexpected prompt')))
+    .api(LOAD_PROJECT_BUNDLE_QUERY, {data: {
+      project: {
+        version: {
+          id: 'UHJvamVjdFZlcnNpb246Mw',
+          bundle: 'http://localhost/dummybundle.zip'
+        }
+      }
+    }})
+    .api(MIGRATE_PROJECT_MUTATION, {data: {
+      migrateProject: {
+        changes: []
+      }
+    }})
+    .workspaceCommand(projectPath('initialized'), ['status'], {setWorkspaceAsDir: true, moduleCache: true})
+    .it('only warns about deployments of other users in non-interactive mode', ctx => {
+      expect(ctx.stderr).to.contain('The environment "default" was deployed by someone else');
+      expect(ctx.stdout).to.contain('No changes detected in project');
+    });
 });
@@ -0,0 +1,3 @@
+module.exports = function summary(payload) {
+  return payload.data.node.title;
+};
@@ -0,0 +1,253 @@
+import {expect, test} from '../../test';
+import path from 'path';
+
+function projectPath(name: string) {
+  return path.join(__dirname, 'testprojects', name);
+}
+
+describe('validate', () => {
+  test
+    .stdout()
+    .stderr()
+    .workspaceCommand(projectPath('valid'), ['validate'], {setWorkspaceAsDir: true, moduleCache: true})
+    .it('validates project without errors', ctx => {
+      expect(ctx.stdout).to.contain('No errors found in project');
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .workspaceCommand(projectPath('with-errors'), ['validate'], {setWorkspaceAsDir: true, moduleCache: true})
+    .exit(1)
+    .it('prints errors in text format', ctx => {
+      expect(ctx.stdout).to.contain('Project configuration has 1 error');
+      expect(ctx.stderr).to.contain('Invalid value at path "module,invalidAttribute"');
+      expect(ctx.stderr).to.contain('> 4 |   invalidAttribute: true');
+    });
+
+  test
+    .stdout()
+    .stderr()
+    .workspaceCommand(
+      projectPath('with-errors'),
+      ['validate', '--format', 'json'],
+      {setWorkspaceAsDir: true, moduleCache: true},
+    )
+    .exit(1)
+    .it('prints errors in JSON format', ctx => {
+      const result = JSON.parse(ctx.stdout);
+      expect(result.valid).to.equal(false);
+      expect(result.errors).to.deep.equal([
+        {
+          message: 'Invalid value at path "module,invalidAttribute": "invalidAttribute" is not allowed',
+          context: [
+            'Errors in module "@private/blog":',
+            `Invalid configuration: ${ctx.workspace}/modules/blog//slicknode.yml`,
+          ],
+          file: 'modules/blog/slicknode.yml',
+          line: 4,
+          column: 3,
+        },
+      ]);
+    });
+
+  test
+    .stdout()
+    .stderr()
+    .workspaceCommand(
+      projectPath('with-errors'),
+      ['validate', '--format', 'sarif'],
+      {setWorkspaceAsDir: true, moduleCache: true},
+    )
+    .exit(1)
+    .it('prints errors in SARIF format', ctx => {
+      const result = JSON.parse(ctx.stdout);
+      expect(result.version).to.equal('2.1.0');
+      expect(result.runs[0].tool.driver.name).to.equal('slicknode');
+      expect(result.runs[0].results.length).to.equal(1);
+      expect(result.runs[0].results[0].level).to.equal('error');
+      expect(result.runs[0].results[0].locations[0].physicalLocation).to.deep.equal({
+        artifactLocation: {
+          uri: 'modules/blog/slicknode.yml',
+          uriBaseId: '%SRCROOT%',
+        },
+        region: {
+          startLine: 4,
+          startColumn: 3,
+        },
+      });
+    });
+
+  test
+    .stdout()
+    .stderr()
+    .workspaceCommand(
+      projectPath('valid'),
+      ['validate', '--format', 'json'],
+      {setWorkspaceAsDir: true, moduleCache: true},
+    )
+    .it('prints valid result in JSON format', ctx => {
+      expect(JSON.parse(ctx.stdout)).to.deep.equal({valid: true, errors: []});
+    });
+
+  test
+    .stdout()
+    .stderr()
+    .workspaceCommand(
+      projectPath('with-invalid-namespace'),
+      ['validate', '--format', 'json'],
+      {setWorkspaceAsDir: true, moduleCache: true},
+    )
+    .exit(1)
+    .it('fails for types and root fields without module namespace', ctx => {
+      const result = JSON.parse(ctx.stdout);
+      expect(result.errors.map((error: any) => [ error.message, error.file, error.line, error.column ])).to.deep.equal([
+        [
+          'The type name "Post" has to start with the namespace of the module "Blog_", for example: "Blog_Post"',
+          'modules/blog/schema.graphql',
+          1,
+          6,
+        ],
+        [
+          'The field "listPosts" on type "Query" has to start with the namespace of the module "Blog_", ' +
+          'for example: "Blog_listPosts"',
+          'modules/blog/schema.graphql',
+          8,
+          3,
+        ],
+      ]);
+    });
+
+  test
+    .stdout()
+    .stderr()
+    .workspaceCommand(
+      projectPath('with-duplicate-namespace'),
+      ['validate', '--format', 'json'],
+      {setWorkspaceAsDir: true, moduleCache: true},
+    )
+    .exit(1)
+    .it('fails for duplicate module namespaces', ctx => {
+      const result = JSON.parse(ctx.stdout);
+      expect(result.errors).to.deep.equal([
+        {
+          message: 'The namespace "Blog" of module "@private/news" is already used by module "@private/blog". ' +
+            'Each module needs a unique namespace',
+          context: [],
+          file: 'modules/news/slicknode.yml',
+          line: 4,
+          column: 3,
+        },
+      ]);
+    });
+
+  test
+    .stdout()
+    .stderr()
+    .workspaceCommand(
+      projectPath('with-handlers'),
+      ['validate', '--format', 'json', '--load-handlers'],
+      {setWorkspaceAsDir: true, moduleCache: true},
+    )
+    .exit(1)
+    .it('fails for invalid resolver and listener handlers', ctx => {
+      const result = JSON.parse(ctx.stdout);
+      expect(result.errors.map((error: any) => [ error.message, error.file, error.line ])).to.deep.equal([
+        [
+          'Resolver is configured for field "Blog_Post.comments", but the field does not exist in the schema',
+          'modules/blog/slicknode.yml',
+          11,
+        ],
+        [
+          'Resolvers are configured for type "Blog_Comment", but the type does not exist in the schema',
+          'modules/blog/slicknode.yml',
+          13,
+        ],
+        [
+          'Handler "src/notify" has to export a function, got undefined',
+          'modules/blog/slicknode.yml',
+          18,
+        ],
+        [
+          `Handler "src/missing" could not be found in the module directory ${ctx.workspace}/modules/blog`,
+          'modules/blog/slicknode.yml',
+          20,
+        ],
+        [
+          'The module has handlers configured but no runtime. Add the runtime to the slicknode.yml, ' +
+          'for example: "runtime: {engine: nodejs@12}"',
+          'modules/news/slicknode.yml',
+          7,
+        ],
+        [
+          `The module has handlers configured but no package.json file in the module directory: ` +
+          `${ctx.workspace}/modules/news`,
+          'modules/news/slicknode.yml',
+          undefined,
+        ],
+      ]);
+    });
+
+  test
+    .stdout()
+    .stderr()
+    .workspaceCommand(
+      projectPath('with-handlers'),
+      ['validate', '--format', 'json'],
+      {setWorkspaceAsDir: true, moduleCache: true},
+    )
+    .exit(1)
+    .it('does not load handlers without --load-handlers flag', ctx => {
+      const result = JSON.parse(ctx.stdout);
+      const messages = result.errors.map((error: any) => error.message);
+      expect(messages).to.not.contain('Handler "src/notify" has to export a function, got undefined');
+      expect(messages).to.contain(
+        `Handler "src/missing" could not be found in the module directory ${ctx.workspace}/modules/blog`,
+      );
+    });
+
+  test
+    .stdout()
+    .stderr()
+    .workspaceCommand(
+      projectPath('with-listeners'),
+      ['validate', '--format', 'json'],
+      {setWorkspaceAsDir: true, moduleCache: true},
+    )
+    .exit(1)
+    .it('fails for listeners of unknown mutations and invalid payload queries', ctx => {
+      const result = JSON.parse(ctx.stdout);
+      expect(result.errors.map((error: any) => [ error.message, error.file, error.line ])).to.deep.equal([
+        [
+          'The listener event "mutation.Blog_publishPots.AFTER" refers to the mutation "Blog_publishPots" ' +
+          'that does not exist in the schema. Did you mean "Blog_publishPost"?',
+          'modules/blog/slicknode.yml',
+          14,
+        ],
+        [
+          'Invalid query of listener "mutation.Blog_publishPost.AFTER" for payload type "Blog_PublishPostPayload": ' +
+          'Cannot query field "author" on type "Blog_Post".',
+          'modules/blog/slicknode.yml',
+          19,
+        ],
+      ]);
+    });
+
+  test
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['validate', '--dir', projectPath('missing-dependencies')])
+    .exit(1)
+    .it('fails if dependencies are not loaded', ctx => {
+      expect(ctx.stderr).to.contain('slicknode pull');
+    });
+
+  test
+    .stdout()
+    .stderr()
+    .command(['validate', '--dir', projectPath('empty')])
+    .catch(/This directory does not have a valid slicknode\.yml file/)
+    .it('fails for folder without slicknode.yml', ctx => {
+
+    });
+});
@@ -0,0 +1,170 @@
+import {expect, test} from '../../test';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import {REFRESH_TOKEN_MUTATION} from 'slicknode-client';
+import {BaseCommand} from '../../../src/base/base-command';
+import {LIST_PROJECT_VERSIONS_QUERY} from '../../../src/commands/versions';
+import {GET_PROJECT_VERSION_QUERY} from '../../../src/commands/versions/show';
+
+function projectPath(name: string) {
+  return path.join(__dirname, 'testprojects', name);
+}
+
+// Home directory with an API endpoint configuration and without stored auth tokens
+const TEST_HOME = path.join(__dirname, 'testhome');
+
+describe('versions', () => {
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr()
+    .api(LIST_PROJECT_VERSIONS_QUERY, {data: {
+      project: {
+        version: {
+          id: 'version2',
+        },
+        versions: {
+          edges: [
+            {
+              node: {
+                id: 'version2',
+                createdAt: '2020-03-02T10:00:00.000Z',
+                changes: [
+                  {type: 'ADD', breaking: false},
+                  {type: 'REMOVE', breaking: true},
+                ],
+              },
+            },
+            {
+              node: {
+                id: 'version1',
+                createdAt: '2020-03-01T10:00:00.000Z',
+                changes: [
+                  {type: 'ADD', breaking: false},
+                ],
+              },
+            },
+          ],
+        },
+      },
+    }})
+    .command(['versions', '--dir', projectPath('initialized')])
+    .it('lists deployed versions', ctx => {
+      expect(ctx.stdout).to.contain('Versions of environment "default"');
+      expect(ctx.stdout).to.contain('1 addition, 0 updates, 1 removal (1 breaking) (current)');
+      expect(ctx.stdout).to.match(/version1 .* 1 addition, 0 updates, 0 removals\n/);
+    });
+
+  test
+    .login()
+    .stdout()
+    .stderr()
+    .api(LIST_PROJECT_VERSIONS_QUERY, {data: null, errors: [{message: 'No access'}]})
+    .command(['versions', '--dir', projectPath('initialized')])
+    .catch(/Error loading versions: No access/)
+    .it('fails for API error', ctx => {
+
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr()
+    .api(GET_PROJECT_VERSION_QUERY, {data: {
+      version: {
+        id: 'version1',
+        createdAt: '2020-03-01T10:00:00.000Z',
+        bundle: 'http://localhost/versionbundle.zip',
+        changes: [
+          {type: 'REMOVE', breaking: true, description: 'Remove field age'},
+        ],
+      },
+    }})
+    .nock(
+      'http://localhost',
+      loader => loader.get('/versionbundle.zip').reply(200, 'bundlecontent')
+    )
+    .workspaceCommand(projectPath('initialized'), ['versions:show', 'version1'])
+    .it('shows version and downloads bundle', ctx => {
+      expect(ctx.stdout).to.contain('0 additions, 0 updates, 1 removal (1 breaking)');
+      expect(ctx.stdout).to.contain('remove: Remove field age [BREAKING]');
+      expect(fs.readFileSync(path.join(ctx.workspace!, 'version1.zip'), 'utf8')).to.equal('bundlecontent');
+    });
+
+  test
+    .login()
+    .stdout()
+    .stderr()
+    .api(GET_PROJECT_VERSION_QUERY, {data: {version: null}})
+    .command(['versions:show', 'unknown', '--dir', projectPath('initialized')])
+    .catch(/The version "unknown" does not exist/)
+    .it('fails for unknown version', ctx => {
+
+    });
+
+  test
+    .stub(os, 'homedir', () => TEST_HOME)
+    .env({SLICKNODE_ACCESS_TOKEN: 'envtoken'})
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .nock('http://localhost', api => api
+      .post('/', (body: any) => body.query === GET_PROJECT_VERSION_QUERY)
+      .matchHeader('authorization', 'Bearer envtoken')
+      .reply(200, {data: {version: null}})
+    )
+    .command(['versions:show', 'version1'])
+    .catch(/The version "version1" does not exist/)
+    .it('authenticates with access token from SLICKNODE_ACCESS_TOKEN', ctx => {
+    });
+
+  test
+    .stub(os, 'homedir', () => TEST_HOME)
+    .env({SLICKNODE_ACCESS_TOKEN: 'envtoken'})
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .nock('http://localhost', api => api
+      .post('/', (body: any) => body.query === GET_PROJECT_VERSION_QUERY)
+      .matchHeader('authorization', 'Bearer flagtoken')
+      .reply(200, {data: {version: null}})
+    )
+    .command(['versions:show', 'version1', '--token', 'flagtoken'])
+    .catch(/The version "version1" does not exist/)
+    .it('prefers access token from --token flag', ctx => {
+    });
+
+  test
+    .stub(os, 'homedir', () => TEST_HOME)
+    .env({SLICKNODE_REFRESH_TOKEN: 'refreshtoken'})
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .nock('http://localhost', api => api
+      .post('/', (body: any) => body.query === REFRESH_TOKEN_MUTATION && body.variables.token === 'refreshtoken')
+      .reply(200, {data: {refreshAuthToken: {
+        accessToken: 'refreshedtoken',
+        accessTokenLifetime: 3600,
+        refreshToken: 'newrefreshtoken',
+        refreshTokenLifetime: 7200,
+      }}})
+      .post('/', (body: any) => body.query === 'query {viewer {user {id}}}')
+      .matchHeader('authorization', 'Bearer refreshedtoken')
+      .reply(200, {data: {viewer: {user: {id: '1'}}}})
+      .post('/', (body: any) => body.query === GET_PROJECT_VERSION_QUERY)
+      .matchHeader('authorization', 'Bearer refreshedtoken')
+      .reply(200, {data: {version: null}})
+    )
+    .command(['versions:show', 'version1'])
+    .catch(/The version "version1" does not exist/)
+    .it('authenticates with refresh token from SLICKNODE_REFRESH_TOKEN', ctx => {
+    });
+
+  test
+    .stub(os, 'homedir', () => TEST_HOME)
+    .stub(BaseCommand.prototype, 'isInteractive' as any, () => false)
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['versions:show', 'version1'])
+    .catch(/Authentication required: Provide an access token/)
+    .it('fails without token in non interactive terminal', ctx => {
+    });
+});
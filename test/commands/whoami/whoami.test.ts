@@ -0,0 +1,113 @@
+import {expect, test} from '../../test';
+import http from 'http';
+import net, {AddressInfo} from 'net';
+import os from 'os';
+import path from 'path';
+import {WHOAMI_QUERY} from '../../../src/commands/whoami';
+
+// Home directory without stored auth tokens
+const EMPTY_HOME = path.join(__dirname, 'testhome');
+
+describe('whoami', () => {
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(WHOAMI_QUERY, {data: {
+      viewer: {
+        user: {
+          id: '1',
+          email: 'test@slicknode.com',
+        },
+        accounts: {
+          edges: [
+            {node: {identifier: 'my-team', name: 'My Team'}},
+          ],
+        },
+      },
+    }})
+    .command(['whoami'])
+    .it('prints user and accounts', ctx => {
+      expect(ctx.stdout).to.equal(
+        'Logged in as test@slicknode.com\n' +
+        'Accounts:\n' +
+        '  my-team  My Team\n'
+      );
+    });
+
+  test
+    .login()
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .api(WHOAMI_QUERY, {data: {viewer: {user: null, accounts: null}}})
+    .command(['whoami'])
+    .catch(error => {
+      expect(error.message).to.contain('You are not authenticated');
+      expect((error as any).oclif.exit).to.equal(1);
+    })
+    .it('fails with invalid auth tokens', ctx => {
+    });
+
+  test
+    .stub(os, 'homedir', () => EMPTY_HOME)
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .command(['whoami'])
+    .catch(error => {
+      expect(error.message).to.contain('You are not logged in');
+      expect((error as any).oclif.exit).to.equal(1);
+    })
+    .it('fails when not logged in', ctx => {
+    });
+
+  test
+    .stub(os, 'homedir', () => EMPTY_HOME)
+    .stdout({stripColor: true})
+    .stderr({stripColor: true})
+    .add('servers', async () => {
+      // API server and proxy server that records the tunneled connections
+      const api = http.createServer((req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({data: {viewer: {
+          user: {id: '1', email: 'proxy@slicknode.com'},
+          accounts: {edges: []},
+        }}}));
+      });
+      const connections: string[] = [];
+      const proxy = http.createServer();
+      proxy.on('connect', (req: http.IncomingMessage, socket: net.Socket) => {
+        connections.push(req.url!);
+        const [ host, port ] = req.url!.split(':');
+        const target = net.connect(Number(port), host, () => {
+          socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+          target.pipe(socket);
+          socket.pipe(target);
+        });
+      });
+      await new Promise((resolve) => api.listen(0, '127.0.0.1', resolve));
+      await new Promise((resolve) => proxy.listen(0, '127.0.0.1', resolve));
+
+      // Configure endpoint and proxy via environment variables
+      const env = process.env;
+      process.env = {
+        ...env,
+        NO_PROXY: '',
+        no_proxy: '',
+        SLICKNODE_ENDPOINT: `http://127.0.0.1:${(api.address() as AddressInfo).port}/`,
+        SLICKNODE_PROXY: `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`,
+      };
+      return {api, proxy, connections, env};
+    })
+    .finally((ctx) => {
+      process.env = ctx.servers.env;
+      ctx.servers.api.close();
+      ctx.servers.proxy.close();
+    })
+    .command(['whoami', '--token', 'token123'])
+    .it('sends API requests through the configured proxy', ctx => {
+      expect(ctx.stdout).to.contain('Logged in as proxy@slicknode.com');
+      expect(ctx.servers.connections).to.deep.equal([
+        `127.0.0.1:${(ctx.servers.api.address() as AddressInfo).port}`,
+      ]);
+    });
+});
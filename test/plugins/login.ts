@@ -1,11 +1,12 @@
 import sinon, {SinonStub} from 'sinon';
 import {BaseCommand} from '../../src/base/base-command';
-import Client, {MemoryStorage} from 'slicknode-client';
+import {MemoryStorage} from 'slicknode-client';
+import ApiClient from '../../src/api/client';
 
 export function login() {
   const storage = new MemoryStorage();
   const DUMMY_ENDPOINT = 'http://localhost';
-  const fakeClient = new Client({
+  const fakeClient = new ApiClient({
     endpoint: DUMMY_ENDPOINT,
     storage,
   });
@@ -16,21 +17,21 @@ export function login() {
     refreshToken: 'sef',
     refreshTokenLifetime: 344356,
   });
-  let stub: SinonStub;
-  if (!BaseCommand.prototype.getClient.hasOwnProperty('restore')) {
-    stub = sinon.stub(BaseCommand.prototype, 'getClient').returns(fakeClient);
-  }
 
   return {
-    async run(ctx: {login: number}) {
+    async run(ctx: {login: number, loginStub?: SinonStub}) {
       ctx.login = ctx.login || 0;
       ctx.login++;
-    },
-    finally(ctx: {error?: Error, login: number}) {
-      if (stub && ctx.login === 0) {
-        stub.restore();
+      if (!BaseCommand.prototype.getClient.hasOwnProperty('restore')) {
+        ctx.loginStub = sinon.stub(BaseCommand.prototype, 'getClient').returns(fakeClient);
       }
+    },
+    finally(ctx: {error?: Error, login: number, loginStub?: SinonStub}) {
       ctx.login--;
+      if (ctx.loginStub && ctx.login === 0) {
+        ctx.loginStub.restore();
+        ctx.loginStub = undefined;
+      }
     },
   }
 }
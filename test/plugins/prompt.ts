@@ -1,11 +1,14 @@
 import sinon, {SinonStub} from 'sinon';
 import inquirer, {Questions} from 'inquirer';
+import {BaseCommand} from '../../src/base/base-command';
 
 export function prompt(values: any[]) {
   const valueStack = [...values];
 
   return {
-    async run(ctx: {prompt?: SinonStub}) {
+    async run(ctx: {prompt?: SinonStub, interactive?: SinonStub}) {
+      // Prompts are only shown in an interactive terminal
+      ctx.interactive = sinon.stub(BaseCommand.prototype, 'isInteractive' as any).returns(true);
       ctx.prompt = sinon.stub(inquirer, 'prompt').callsFake(async (questions: Questions<any>) => {
         if (questions instanceof Array) {
           return questions.reduce((result, question) => {
@@ -34,7 +37,10 @@ export function prompt(values: any[]) {
 
     },
 
-    finally(ctx: {prompt?: SinonStub}) {
+    finally(ctx: {prompt?: SinonStub, interactive?: SinonStub}) {
+      if (ctx.interactive) {
+        ctx.interactive.restore();
+      }
       if (ctx.prompt) {
         ctx.prompt.restore();
         if (valueStack.length !== 0) {
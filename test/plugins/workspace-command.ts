@@ -1,14 +1,20 @@
 import {FancyTypes} from 'fancy-test';
 import path from "path";
-import {mkdirpSync} from 'fs-extra';
+import {copySync, mkdirpSync} from 'fs-extra';
 import copyfiles from 'copyfiles';
 import os from "os";
 import uuid from 'uuid';
 import rimraf = require('rimraf');
 import _ from 'lodash';
 
+// Shared cache with the public modules auth, core and relay
+const MODULE_CACHE_PATH = path.join(__dirname, '..', 'fixtures', 'module-cache');
+
 interface IWorkspaceCommandOptions {
   setWorkspaceAsDir?: boolean,
+
+  // Copy the shared module cache into the .slicknode folder of the workspace
+  moduleCache?: boolean,
 }
 
 export function workspaceCommand(
@@ -31,6 +37,9 @@ export function workspaceCommand(
           workspace,
         ], {up: sourcePath.split('/').length}, resolve);
       });
+      if (options.moduleCache) {
+        copySync(MODULE_CACHE_PATH, path.join(workspace, '.slicknode', 'cache', 'modules'));
+      }
 
       if (ctx.plugins && ctx.plugins.command) {
         let resolvedArgs = typeof args === 'function' ? args(ctx) : args;